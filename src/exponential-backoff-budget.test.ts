@@ -0,0 +1,168 @@
+import { defer, lastValueFrom, throwError } from "rxjs";
+import { retry } from "rxjs/operators";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RetryManager } from "./exponential-backoff";
+import { RetryBudget } from "./exponential-backoff-budget";
+import { RetryBudgetExhaustedError, RetryError } from "./exponential-backoff-errors";
+import { retryWithBackoff } from "./exponential-backoff-operator";
+import { retryAsync } from "./exponential-backoff-retry-async";
+import { createBackoffDelayFunction } from "./exponential-backoff-timer";
+
+describe("RetryBudget", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("ratio policy", () => {
+    it("should allow the minimum retries without any requests", () => {
+      const budget = new RetryBudget({ ratio: 0.5, minRetriesPerSecond: 1, windowMs: 2000 });
+
+      expect(budget.available).toBe(2);
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.tryAcquire()).toBe(false);
+    });
+
+    it("should earn allowance from recorded requests", () => {
+      const budget = new RetryBudget({ ratio: 0.5, minRetriesPerSecond: 0, windowMs: 1000 });
+
+      for (let i = 0; i < 4; i++) {
+        budget.recordRequest();
+      }
+
+      expect(budget.available).toBe(2);
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.available).toBe(1);
+    });
+
+    it("should forget requests and retries outside the window", () => {
+      const budget = new RetryBudget({ ratio: 1, minRetriesPerSecond: 0, windowMs: 2000 });
+
+      budget.recordRequest();
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.tryAcquire()).toBe(false);
+
+      vi.advanceTimersByTime(3000);
+      budget.recordRequest();
+      expect(budget.available).toBe(1);
+    });
+
+    it("should default to a 10% ratio with a floor of 10 retries per second", () => {
+      expect(new RetryBudget().available).toBe(100);
+    });
+
+    it("should refund only retries that were spent", () => {
+      const budget = new RetryBudget({ ratio: 0, minRetriesPerSecond: 1, windowMs: 1000 });
+
+      expect(budget.tryAcquire()).toBe(true);
+      budget.refund();
+      budget.refund();
+
+      expect(budget.available).toBe(1);
+    });
+  });
+
+  describe("token-bucket policy", () => {
+    it("should allow bursts up to capacity and refill over time", () => {
+      const budget = new RetryBudget({ mode: "token-bucket", capacity: 2, refillPerSecond: 1 });
+
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.tryAcquire()).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect(budget.tryAcquire()).toBe(true);
+
+      vi.advanceTimersByTime(60000);
+      expect(budget.available).toBe(2);
+    });
+
+    it("should ignore recorded requests", () => {
+      const budget = new RetryBudget({ mode: "token-bucket", capacity: 1, refillPerSecond: 0 });
+
+      budget.recordRequest();
+
+      expect(budget.available).toBe(1);
+    });
+  });
+
+  describe("integration", () => {
+    const emptyBudget = () =>
+      new RetryBudget({ mode: "token-bucket", capacity: 1, refillPerSecond: 0 });
+
+    it("should fail RetryManager retries fast once shared budget is used up", () => {
+      const budget = emptyBudget();
+      const first = new RetryManager({ baseDelayMs: 10, retryBudget: budget });
+      const second = new RetryManager({ baseDelayMs: 10, retryBudget: budget });
+
+      expect(first.scheduleNextRetry().retryAttempt).toBe(1);
+      expect(() => second.scheduleNextRetry(new Error("down"))).toThrow(RetryBudgetExhaustedError);
+      expect(second.attemptCount).toBe(0);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should refund the budget when a RetryManager wait is aborted", async () => {
+      const budget = emptyBudget();
+      const manager = new RetryManager({ baseDelayMs: 10, retryBudget: budget });
+      const controller = new AbortController();
+
+      const wait = manager.waitForNextRetry({ signal: controller.signal });
+      expect(budget.available).toBe(0);
+
+      controller.abort();
+      await expect(wait).rejects.toThrow();
+      expect(budget.available).toBe(1);
+    });
+
+    it("should record a request per RetryManager operation", () => {
+      const budget = new RetryBudget({ ratio: 1, minRetriesPerSecond: 0 });
+      const manager = new RetryManager({ retryBudget: budget });
+
+      manager.reset();
+
+      expect(budget.available).toBe(2);
+    });
+
+    it("should fail delay functions fast with the original error as cause", async () => {
+      vi.useRealTimers();
+      const budget = emptyBudget();
+      const failure = new Error("down");
+      const delay = createBackoffDelayFunction({ baseDelayMs: 1, retryBudget: budget });
+
+      const error: unknown = await lastValueFrom(
+        throwError(() => failure).pipe(retry({ count: 5, delay }))
+      ).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RetryBudgetExhaustedError);
+      expect((error as RetryBudgetExhaustedError).cause).toBe(failure);
+    });
+
+    it("should record requests and stop retryWithBackoff", async () => {
+      vi.useRealTimers();
+      const budget = new RetryBudget({ ratio: 1, minRetriesPerSecond: 0 });
+      let subscriptions = 0;
+      const source = defer(() => {
+        subscriptions++;
+        return throwError(() => new Error("down"));
+      });
+
+      await expect(
+        lastValueFrom(source.pipe(retryWithBackoff({ baseDelayMs: 1, retryBudget: budget })))
+      ).rejects.toBeInstanceOf(RetryBudgetExhaustedError);
+      expect(subscriptions).toBe(2);
+    });
+
+    it("should report budget exhaustion from retryAsync", async () => {
+      const error: unknown = await retryAsync(() => Promise.reject(new Error("down")), {
+        retryBudget: new RetryBudget({ mode: "token-bucket", capacity: 0, refillPerSecond: 0 })
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RetryError);
+      expect((error as RetryError).reason).toBe("budget-exhausted");
+    });
+  });
+});
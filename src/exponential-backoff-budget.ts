@@ -0,0 +1,236 @@
+/**
+ * Shared retry budgets.
+ *
+ * Every RetryManager and every delay function retries independently, so
+ * during an outage a fleet configured with 3 retries sends up to 4 times its
+ * normal traffic to a dependency that is already struggling. A retry budget is
+ * shared between many retry loops and caps how many retries they may make
+ * together; once it is used up, retries fail fast instead of scheduling
+ * another backoff timer.
+ *
+ * Two policies are available:
+ *
+ * - **Ratio** (as in gRPC and Finagle): retries may make up at most a fixed
+ *   fraction of the requests seen over a sliding window, plus a small floor
+ *   so that low-traffic clients can still retry.
+ * - **Token bucket**: each retry spends a token, and tokens refill at a fixed
+ *   rate up to a maximum capacity.
+ */
+
+/**
+ * Options for a ratio-based {@link RetryBudget}.
+ */
+export interface RatioRetryBudgetOptions {
+  mode?: "ratio";
+
+  /**
+   * The maximum number of retries per request, over the window.
+   * A ratio of 0.1 allows one retry for every ten requests.
+   *
+   * @defaultValue 0.1
+   */
+  ratio?: number;
+
+  /**
+   * Retries allowed per second regardless of traffic, so a client that has
+   * only made a handful of requests can still retry them.
+   *
+   * @defaultValue 10
+   */
+  minRetriesPerSecond?: number;
+
+  /**
+   * The length of the sliding window in milliseconds.
+   *
+   * @defaultValue 10000
+   */
+  windowMs?: number;
+}
+
+/**
+ * Options for a token-bucket {@link RetryBudget}.
+ */
+export interface TokenBucketRetryBudgetOptions {
+  mode: "token-bucket";
+
+  /**
+   * The maximum number of tokens, which is also the largest burst of retries.
+   */
+  capacity: number;
+
+  /**
+   * The number of tokens added back per second.
+   */
+  refillPerSecond: number;
+}
+
+/**
+ * Configuration options for {@link RetryBudget}.
+ */
+export type RetryBudgetOptions = RatioRetryBudgetOptions | TokenBucketRetryBudgetOptions;
+
+/**
+ * Request and retry counts for one second of the ratio window.
+ */
+interface RetryBudgetBucket {
+  second: number;
+  requests: number;
+  retries: number;
+}
+
+/**
+ * A retry allowance shared between many retry loops.
+ *
+ * Pass the same instance as the `retryBudget` option of every RetryManager,
+ * delay function, retryWithBackoff() operator or retryAsync() call that talks
+ * to the same dependency. The promise-based helpers and the operator record
+ * requests automatically; code that uses createBackoffDelayFunction() should
+ * call {@link recordRequest} once per request.
+ *
+ * @example
+ * ```typescript
+ * // Retries may add at most 20% on top of normal traffic
+ * const budget = new RetryBudget({ ratio: 0.2 });
+ *
+ * const manager = new RetryManager({ maxAttempts: 3, retryBudget: budget });
+ * source.pipe(retryWithBackoff({ maxRetries: 3, retryBudget: budget }));
+ *
+ * // Or: at most 50 retries in a burst, refilling 5 per second
+ * const bucket = new RetryBudget({ mode: "token-bucket", capacity: 50, refillPerSecond: 5 });
+ * ```
+ */
+export class RetryBudget {
+  private readonly _options: Required<RatioRetryBudgetOptions> | TokenBucketRetryBudgetOptions;
+  private _buckets: RetryBudgetBucket[] = [];
+  private _tokens = 0;
+  private _refilledAt = Date.now();
+
+  /**
+   * Creates a new retry budget.
+   *
+   * @param options - The budget policy; defaults to a 10% ratio budget
+   */
+  constructor(options: RetryBudgetOptions = {}) {
+    if (options.mode === "token-bucket") {
+      this._options = options;
+      this._tokens = options.capacity;
+    } else {
+      this._options = {
+        mode: "ratio",
+        ratio: options.ratio ?? 0.1,
+        minRetriesPerSecond: options.minRetriesPerSecond ?? 10,
+        windowMs: options.windowMs ?? 10000
+      };
+    }
+  }
+
+  /**
+   * Records a request, which earns retry allowance under the ratio policy.
+   *
+   * Record initial requests only, not retries.
+   */
+  public recordRequest(): void {
+    if (this._options.mode === "ratio") {
+      this.prune(this._options.windowMs);
+      this.currentBucket().requests++;
+    }
+  }
+
+  /**
+   * Gets the number of retries currently available.
+   */
+  public get available(): number {
+    if (this._options.mode === "token-bucket") {
+      this.refill(this._options);
+      return Math.floor(this._tokens);
+    }
+
+    const { ratio, minRetriesPerSecond, windowMs } = this._options;
+    this.prune(windowMs);
+
+    const requests = this._buckets.reduce((sum, bucket) => sum + bucket.requests, 0);
+    const retries = this._buckets.reduce((sum, bucket) => sum + bucket.retries, 0);
+    const allowance = requests * ratio + (minRetriesPerSecond * windowMs) / 1000;
+
+    return Math.max(0, Math.floor(allowance - retries));
+  }
+
+  /**
+   * Spends one retry from the budget if any is available.
+   *
+   * @returns true if the retry may go ahead
+   */
+  public tryAcquire(): boolean {
+    if (this.available < 1) {
+      return false;
+    }
+
+    if (this._options.mode === "token-bucket") {
+      this._tokens--;
+    } else {
+      this.currentBucket().retries++;
+    }
+
+    return true;
+  }
+
+  /**
+   * Gives back a retry spent with {@link tryAcquire} that was never sent, for
+   * example because its wait was cancelled.
+   *
+   * A retry that has already slid out of the ratio window is not refunded.
+   */
+  public refund(): void {
+    if (this._options.mode === "token-bucket") {
+      this.refill(this._options);
+      this._tokens = Math.min(this._options.capacity, this._tokens + 1);
+      return;
+    }
+
+    this.prune(this._options.windowMs);
+
+    for (let i = this._buckets.length - 1; i >= 0; i--) {
+      const bucket = this._buckets[i];
+
+      if (bucket && bucket.retries > 0) {
+        bucket.retries--;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Adds tokens for the time passed since the last refill.
+   */
+  private refill({ capacity, refillPerSecond }: TokenBucketRetryBudgetOptions): void {
+    const now = Date.now();
+    this._tokens = Math.min(
+      capacity,
+      this._tokens + ((now - this._refilledAt) / 1000) * refillPerSecond
+    );
+    this._refilledAt = now;
+  }
+
+  /**
+   * Drops buckets that have slid out of the window.
+   */
+  private prune(windowMs: number): void {
+    const oldest = Math.floor((Date.now() - windowMs) / 1000);
+    this._buckets = this._buckets.filter((bucket) => bucket.second > oldest);
+  }
+
+  /**
+   * Gets the bucket for the current second, creating it if needed.
+   */
+  private currentBucket(): RetryBudgetBucket {
+    const second = Math.floor(Date.now() / 1000);
+    let bucket = this._buckets[this._buckets.length - 1];
+
+    if (bucket?.second !== second) {
+      bucket = { second, requests: 0, retries: 0 };
+      this._buckets.push(bucket);
+    }
+
+    return bucket;
+  }
+}
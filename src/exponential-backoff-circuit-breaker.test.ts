@@ -0,0 +1,296 @@
+import { defer, lastValueFrom, NEVER, of, Subject, throwError } from "rxjs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CircuitBreaker,
+  withCircuitBreaker,
+  type CircuitStateChange
+} from "./exponential-backoff-circuit-breaker";
+import { CircuitOpenError, RetryError } from "./exponential-backoff-errors";
+import { retryAsync } from "./exponential-backoff-retry-async";
+
+const cooldown = { baseDelayMs: 1000, maxDelayMs: 8000, jitterFactor: 0 };
+const fail = () => Promise.reject(new Error("down"));
+const succeed = () => Promise.resolve("ok");
+
+/**
+ * Fails the breaker's operation `count` times, ignoring the rejections.
+ */
+const failTimes = async (breaker: CircuitBreaker, count: number) => {
+  for (let i = 0; i < count; i++) {
+    await breaker.execute(fail).catch(() => {});
+  }
+};
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should open after consecutive failures and fail fast", async () => {
+    const breaker = new CircuitBreaker({ name: "api", failureThreshold: 3, cooldown });
+    const operation = vi.fn(fail);
+
+    await failTimes(breaker, 2);
+    expect(breaker.state).toBe("closed");
+
+    await failTimes(breaker, 1);
+    expect(breaker.state).toBe("open");
+
+    const error: unknown = await breaker.execute(operation).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).circuit).toBe("api");
+    expect((error as CircuitOpenError).retryAfterMs).toBe(1000);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it("should reset the consecutive count on success", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown });
+
+    await failTimes(breaker, 1);
+    await breaker.execute(succeed);
+    await failTimes(breaker, 1);
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should open when the failure rate threshold is reached", async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 100,
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+      windowSize: 4,
+      cooldown
+    });
+
+    await breaker.execute(succeed);
+    await failTimes(breaker, 1);
+    await breaker.execute(succeed);
+    expect(breaker.state).toBe("closed");
+
+    await failTimes(breaker, 1);
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should let a limited number of probes through once the cooldown passes", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, halfOpenMaxProbes: 1, cooldown });
+
+    await failTimes(breaker, 1);
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.release();
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should grow the cooldown across repeated trips", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown });
+
+    await failTimes(breaker, 1);
+    expect(breaker.retryAfterMs).toBe(1000);
+
+    vi.advanceTimersByTime(1000);
+    await failTimes(breaker, 1);
+    expect(breaker.retryAfterMs).toBe(2000);
+
+    vi.advanceTimersByTime(2000);
+    await failTimes(breaker, 1);
+    expect(breaker.retryAfterMs).toBe(4000);
+
+    vi.advanceTimersByTime(4000);
+    await breaker.execute(succeed);
+    await failTimes(breaker, 1);
+    expect(breaker.retryAfterMs).toBe(1000);
+  });
+
+  it("should require successThreshold successful probes to close", async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      halfOpenMaxProbes: 2,
+      successThreshold: 2,
+      cooldown
+    });
+
+    await failTimes(breaker, 1);
+    vi.advanceTimersByTime(1000);
+
+    await breaker.execute(succeed);
+    expect(breaker.state).toBe("half-open");
+
+    await breaker.execute(succeed);
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should only let probes close a half-open circuit", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown });
+    let finishSlowRequest = (_value: string) => {};
+    const slowRequest = breaker.execute(
+      () => new Promise<string>((resolve) => (finishSlowRequest = resolve))
+    );
+
+    await failTimes(breaker, 1);
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe("half-open");
+
+    finishSlowRequest("ok");
+    await slowRequest;
+    expect(breaker.state).toBe("half-open");
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("half-open");
+
+    await breaker.execute(succeed);
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should not let a late failure from before the trip open a half-open circuit", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown });
+    const stale = breaker.acquire();
+
+    await failTimes(breaker, 1);
+    vi.advanceTimersByTime(1000);
+    const probe = breaker.acquire();
+
+    breaker.recordFailure(new Error("down"), stale);
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordFailure(new Error("down"), probe);
+    expect(breaker.state).toBe("open");
+    expect(breaker.retryAfterMs).toBe(2000);
+  });
+
+  it("should ignore errors that are not failures of the dependency", async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      isFailure: (error) => (error as Error).message !== "not found",
+      cooldown
+    });
+
+    await breaker.execute(() => Promise.reject(new Error("not found"))).catch(() => {});
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should emit state changes as events and callbacks", async () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({
+      name: "db",
+      failureThreshold: 1,
+      cooldown,
+      onStateChange
+    });
+    const changes: CircuitStateChange[] = [];
+    breaker.stateChanges$.subscribe((change) => changes.push(change));
+
+    await failTimes(breaker, 1);
+    vi.advanceTimersByTime(1000);
+    await breaker.execute(succeed);
+
+    expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      "closed->open",
+      "open->half-open",
+      "half-open->closed"
+    ]);
+    expect(changes[0]).toMatchObject({ circuit: "db", trips: 1, openUntil: Date.now() });
+    expect(onStateChange).toHaveBeenCalledTimes(3);
+  });
+
+  it("should close and forget outcomes on reset", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown });
+
+    await failTimes(breaker, 2);
+    breaker.reset();
+
+    expect(breaker.state).toBe("closed");
+    expect(breaker.retryAfterMs).toBe(0);
+  });
+
+  it("should wrap retryAsync-style functions", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown });
+    const operation = vi.fn((_attempt: number, _signal: AbortSignal) => fail());
+
+    const promise = retryAsync(breaker.wrap(operation), {
+      baseDelayMs: 10,
+      jitterFactor: 0,
+      maxAttempts: 3
+    }).catch((e: unknown) => e);
+    await vi.runAllTimersAsync();
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(RetryError);
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect((error as RetryError).lastError).toBeInstanceOf(CircuitOpenError);
+  });
+});
+
+describe("withCircuitBreaker", () => {
+  it("should record successes and failures from subscriptions", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown });
+    const failing = throwError(() => new Error("down")).pipe(withCircuitBreaker(breaker));
+
+    await expect(lastValueFrom(failing)).rejects.toThrow("down");
+    await expect(lastValueFrom(of("ok").pipe(withCircuitBreaker(breaker)))).resolves.toBe("ok");
+    await expect(lastValueFrom(failing)).rejects.toThrow("down");
+    expect(breaker.state).toBe("closed");
+
+    await expect(lastValueFrom(failing)).rejects.toThrow("down");
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should not subscribe to the source while open", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown });
+    const subscribe = vi.fn(() => of("ok"));
+    breaker.recordFailure(new Error("down"));
+
+    await expect(
+      lastValueFrom(defer(subscribe).pipe(withCircuitBreaker(breaker)))
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(subscribe).not.toHaveBeenCalled();
+  });
+
+  it("should not close the circuit for a subscription made while closed", () => {
+    vi.useFakeTimers();
+
+    try {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown });
+      const response = new Subject<string>();
+      response.pipe(withCircuitBreaker(breaker)).subscribe();
+
+      breaker.recordFailure(new Error("down"));
+      vi.advanceTimersByTime(1000);
+      response.next("ok");
+
+      expect(breaker.state).toBe("half-open");
+      expect(breaker.tryAcquire()).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should release the probe when unsubscribed before settling", () => {
+    vi.useFakeTimers();
+
+    try {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown });
+      breaker.recordFailure(new Error("down"));
+      vi.advanceTimersByTime(1000);
+
+      NEVER.pipe(withCircuitBreaker(breaker)).subscribe().unsubscribe();
+
+      expect(breaker.state).toBe("half-open");
+      expect(breaker.tryAcquire()).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,568 @@
+/**
+ * Circuit breaking for dependencies that stay down.
+ *
+ * Exponential backoff spaces out the retries of a single caller, but thousands
+ * of callers can still keep probing a dependency that is clearly dead. A
+ * circuit breaker shares one view of the dependency's health between all of
+ * them:
+ *
+ * - **Closed**: requests flow normally while failures are counted.
+ * - **Open**: after too many failures, requests fail fast without being sent.
+ * - **Half-open**: once a cooldown passes, a limited number of probe requests
+ *   are let through. Success closes the circuit; failure opens it again.
+ *
+ * The cooldown uses calculateExponentialBackoff(), so a dependency that keeps
+ * failing its probes is left alone for longer and longer.
+ */
+
+import { defer, type MonoTypeOperatorFunction, Observable, Subject, throwError } from "rxjs";
+import { calculateExponentialBackoff, type BackoffOptions } from "./exponential-backoff";
+import { CircuitOpenError } from "./exponential-backoff-errors";
+
+/**
+ * The states of a {@link CircuitBreaker}.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Describes a transition between circuit states.
+ */
+export interface CircuitStateChange {
+  /**
+   * The name of the circuit, for dashboards and logs.
+   */
+  circuit: string;
+
+  /**
+   * The state before the transition.
+   */
+  from: CircuitState;
+
+  /**
+   * The state after the transition.
+   */
+  to: CircuitState;
+
+  /**
+   * When the transition happened, in epoch milliseconds.
+   */
+  at: number;
+
+  /**
+   * How many times in a row the circuit has opened without closing in between.
+   * Reset to 0 when the circuit closes.
+   */
+  trips: number;
+
+  /**
+   * When an open circuit will let probes through, in epoch milliseconds.
+   * Only set for transitions to "open".
+   */
+  openUntil?: number;
+}
+
+/**
+ * Configuration options for {@link CircuitBreaker}.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * The name of the circuit, included in events and errors.
+   *
+   * @defaultValue "circuit"
+   */
+  name?: string;
+
+  /**
+   * The number of consecutive failures that opens the circuit.
+   *
+   * @defaultValue 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * The failure rate between 0 and 1 that opens the circuit, measured over the
+   * last {@link windowSize} requests. Disabled unless set.
+   *
+   * Use this instead of (or alongside) the consecutive threshold for busy
+   * dependencies, where a few successes can hide a high error rate.
+   */
+  failureRateThreshold?: number;
+
+  /**
+   * The number of recent requests the failure rate is measured over.
+   *
+   * @defaultValue 20
+   */
+  windowSize?: number;
+
+  /**
+   * The minimum number of requests in the window before the failure rate is
+   * considered, so one early failure doesn't open the circuit.
+   *
+   * @defaultValue 10
+   */
+  minimumRequests?: number;
+
+  /**
+   * The backoff used for the open-state cooldown. The first trip waits about
+   * `baseDelayMs`, and each consecutive trip grows the wait up to `maxDelayMs`.
+   *
+   * @defaultValue { baseDelayMs: 5000, maxDelayMs: 60000, jitterFactor: 0.2 }
+   */
+  cooldown?: BackoffOptions;
+
+  /**
+   * The maximum number of probe requests in flight while half-open.
+   *
+   * @defaultValue 1
+   */
+  halfOpenMaxProbes?: number;
+
+  /**
+   * The number of successful probes needed to close the circuit.
+   *
+   * @defaultValue 1
+   */
+  successThreshold?: number;
+
+  /**
+   * Decides whether an error counts as a failure of the dependency.
+   *
+   * Errors that say nothing about the dependency's health, such as validation
+   * errors or 404s, should return false so they don't open the circuit.
+   *
+   * @defaultValue Every error is a failure
+   */
+  isFailure?: (error: unknown) => boolean;
+
+  /**
+   * Called on every state transition.
+   */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * A permission to send one request, granted by {@link CircuitBreaker.acquire}.
+ */
+export interface CircuitPermit {
+  /**
+   * Whether the request is one of the half-open probes.
+   */
+  readonly probe: boolean;
+
+  /**
+   * The number of state transitions the breaker had made when the permit was
+   * granted, so an outcome reported after the state moved on is not mistaken
+   * for a probe's.
+   */
+  readonly transitions: number;
+}
+
+/**
+ * A closed/open/half-open circuit breaker with an exponentially growing cooldown.
+ *
+ * One breaker should be shared by every caller of the same dependency.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({
+ *   name: "payments-api",
+ *   failureThreshold: 5,
+ *   cooldown: { baseDelayMs: 2000, maxDelayMs: 60000 }
+ * });
+ *
+ * breaker.stateChanges$.subscribe(({ circuit, to }) =>
+ *   metrics.gauge(`circuit.${circuit}.open`, to === "open" ? 1 : 0)
+ * );
+ *
+ * // Promise-based
+ * const charge = await breaker.execute(() => payments.charge(order));
+ *
+ * // Composed with retryAsync: an open circuit fails each attempt fast
+ * await retryAsync(breaker.wrap((attempt, signal) => payments.charge(order, { signal })));
+ *
+ * // RxJS
+ * http.get("/payments").pipe(withCircuitBreaker(breaker), retryWithBackoff());
+ * ```
+ */
+export class CircuitBreaker {
+  private _state: CircuitState = "closed";
+  private _trips = 0;
+  private _openUntil = 0;
+  private _consecutiveFailures = 0;
+  private _outcomes: boolean[] = [];
+  private _probesInFlight = 0;
+  private _probeSuccesses = 0;
+  private _transitions = 0;
+  private readonly _options: Required<Omit<CircuitBreakerOptions, "failureRateThreshold">> & {
+    failureRateThreshold: number | undefined;
+  };
+  private readonly _stateChanges = new Subject<CircuitStateChange>();
+
+  /**
+   * Emits every state transition.
+   */
+  public readonly stateChanges$: Observable<CircuitStateChange> = this._stateChanges.asObservable();
+
+  /**
+   * Creates a new circuit breaker in the closed state.
+   *
+   * @param options - Thresholds, cooldown and callbacks
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    this._options = {
+      name: options.name ?? "circuit",
+      failureThreshold: options.failureThreshold ?? 5,
+      failureRateThreshold: options.failureRateThreshold,
+      windowSize: options.windowSize ?? 20,
+      minimumRequests: options.minimumRequests ?? 10,
+      cooldown: options.cooldown ?? { baseDelayMs: 5000, maxDelayMs: 60000, jitterFactor: 0.2 },
+      halfOpenMaxProbes: options.halfOpenMaxProbes ?? 1,
+      successThreshold: options.successThreshold ?? 1,
+      isFailure: options.isFailure ?? (() => true),
+      onStateChange: options.onStateChange ?? (() => {})
+    };
+  }
+
+  /**
+   * Gets the name of the circuit.
+   */
+  public get name(): string {
+    return this._options.name;
+  }
+
+  /**
+   * Gets the current state, moving from open to half-open once the cooldown
+   * has passed.
+   */
+  public get state(): CircuitState {
+    if (this._state === "open" && Date.now() >= this._openUntil) {
+      this.transition("half-open");
+    }
+
+    return this._state;
+  }
+
+  /**
+   * Gets the time in milliseconds until an open circuit lets probes through.
+   * Returns 0 when the circuit is not open.
+   */
+  public get retryAfterMs(): number {
+    return this.state === "open" ? Math.max(0, this._openUntil - Date.now()) : 0;
+  }
+
+  /**
+   * Asks permission to send a request.
+   *
+   * Always granted while closed and never while open. While half-open, a
+   * permit is granted for each of the limited probe slots; the caller must then
+   * report the outcome with {@link recordSuccess}, {@link recordFailure} or
+   * {@link release}.
+   *
+   * Prefer {@link acquire} when a request can still be running after the
+   * state changes, so its outcome is matched to the right state.
+   *
+   * @returns true if the request may be sent
+   */
+  public tryAcquire(): boolean {
+    return this.acquire() !== undefined;
+  }
+
+  /**
+   * Asks permission to send a request, like {@link tryAcquire}, and returns a
+   * permit to pass back with the outcome.
+   *
+   * Only a probe permit granted in the current half-open state can close the
+   * circuit. A request let through while the circuit was still closed says
+   * nothing about the dependency's recovery, even if it finishes after the
+   * circuit has moved to half-open.
+   *
+   * @returns The permit, or undefined if the request may not be sent
+   */
+  public acquire(): CircuitPermit | undefined {
+    switch (this.state) {
+      case "closed":
+        return { probe: false, transitions: this._transitions };
+      case "open":
+        return undefined;
+      case "half-open":
+        if (this._probesInFlight >= this._options.halfOpenMaxProbes) {
+          return undefined;
+        }
+
+        this._probesInFlight++;
+        return { probe: true, transitions: this._transitions };
+    }
+  }
+
+  /**
+   * Records a successful request.
+   *
+   * @param permit - The permit the request was sent with. Without one, a
+   *                 success while half-open counts as a probe's only if a
+   *                 probe is in flight.
+   */
+  public recordSuccess(permit?: CircuitPermit): void {
+    if (this._state === "half-open") {
+      if (!this.isProbe(permit)) {
+        return;
+      }
+
+      this._probesInFlight = Math.max(0, this._probesInFlight - 1);
+      this._probeSuccesses++;
+
+      if (this._probeSuccesses >= this._options.successThreshold) {
+        this._trips = 0;
+        this.transition("closed");
+      }
+
+      return;
+    }
+
+    this._consecutiveFailures = 0;
+    this.recordOutcome(true);
+  }
+
+  /**
+   * Records a failed request, opening the circuit if a threshold is reached.
+   *
+   * Errors rejected by the `isFailure` option are recorded as successes, since
+   * the dependency did respond. While half-open, only a probe's failure opens
+   * the circuit again; a request let through before the circuit opened is
+   * ignored.
+   *
+   * @param error - The error the request failed with
+   * @param permit - The permit the request was sent with. Without one, a
+   *                 failure while half-open counts as a probe's only if a
+   *                 probe is in flight.
+   */
+  public recordFailure(error?: unknown, permit?: CircuitPermit): void {
+    if (error !== undefined && !this._options.isFailure(error)) {
+      this.recordSuccess(permit);
+      return;
+    }
+
+    if (this._state === "half-open") {
+      if (this.isProbe(permit)) {
+        this.open();
+      }
+
+      return;
+    }
+
+    if (this._state === "open") {
+      return;
+    }
+
+    this._consecutiveFailures++;
+    this.recordOutcome(false);
+
+    if (this.isThresholdReached()) {
+      this.open();
+    }
+  }
+
+  /**
+   * Gives back a half-open probe permit without recording an outcome, for
+   * example when the request was cancelled before it completed.
+   *
+   * @param permit - The permit to give back
+   */
+  public release(permit?: CircuitPermit): void {
+    if (this._state === "half-open" && this.isProbe(permit)) {
+      this._probesInFlight = Math.max(0, this._probesInFlight - 1);
+    }
+  }
+
+  /**
+   * Runs an async operation through the breaker.
+   *
+   * @param operation - The operation to protect
+   * @returns The operation's result
+   *
+   * @throws {CircuitOpenError} When the circuit does not allow the request
+   */
+  public async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const permit = this.acquire();
+
+    if (!permit) {
+      throw new CircuitOpenError(this.name, this.retryAfterMs);
+    }
+
+    try {
+      const result = await operation();
+      this.recordSuccess(permit);
+      return result;
+    } catch (error: unknown) {
+      this.recordFailure(error, permit);
+      throw error;
+    }
+  }
+
+  /**
+   * Wraps an async function so every call goes through the breaker.
+   *
+   * The wrapped function has the same signature, so it can be passed straight
+   * to retryAsync().
+   *
+   * @param operation - The function to protect
+   * @returns The protected function
+   */
+  public wrap<A extends unknown[], T>(
+    operation: (...args: A) => Promise<T>
+  ): (...args: A) => Promise<T> {
+    return (...args: A) => this.execute(() => operation(...args));
+  }
+
+  /**
+   * Closes the circuit and forgets all recorded outcomes.
+   */
+  public reset(): void {
+    this._trips = 0;
+    this.transition("closed");
+  }
+
+  /**
+   * Adds an outcome to the failure rate window.
+   */
+  private recordOutcome(success: boolean): void {
+    this._outcomes.push(success);
+
+    if (this._outcomes.length > this._options.windowSize) {
+      this._outcomes.shift();
+    }
+  }
+
+  /**
+   * Checks whether an outcome belongs to a probe of the current half-open
+   * state.
+   */
+  private isProbe(permit: CircuitPermit | undefined): boolean {
+    if (!permit) {
+      return this._probesInFlight > 0;
+    }
+
+    return permit.probe && permit.transitions === this._transitions;
+  }
+
+  /**
+   * Checks the consecutive failure and failure rate thresholds.
+   */
+  private isThresholdReached(): boolean {
+    if (this._consecutiveFailures >= this._options.failureThreshold) {
+      return true;
+    }
+
+    const { failureRateThreshold, minimumRequests } = this._options;
+
+    if (failureRateThreshold === undefined || this._outcomes.length < minimumRequests) {
+      return false;
+    }
+
+    const failures = this._outcomes.filter((success) => !success).length;
+    return failures / this._outcomes.length >= failureRateThreshold;
+  }
+
+  /**
+   * Opens the circuit for a cooldown that grows with each consecutive trip.
+   */
+  private open(): void {
+    this._trips++;
+    const cooldown = calculateExponentialBackoff(this._trips, this._options.cooldown);
+    this._openUntil = Date.now() + cooldown.delayMs;
+    this.transition("open");
+  }
+
+  /**
+   * Moves to a new state, clearing per-state counters and notifying listeners.
+   */
+  private transition(to: CircuitState): void {
+    const from = this._state;
+
+    this._state = to;
+    this._consecutiveFailures = 0;
+    this._outcomes = [];
+    this._probesInFlight = 0;
+    this._probeSuccesses = 0;
+    this._transitions++;
+
+    if (from === to) {
+      return;
+    }
+
+    const change: CircuitStateChange = {
+      circuit: this.name,
+      from,
+      to,
+      at: Date.now(),
+      trips: this._trips
+    };
+
+    if (to === "open") {
+      change.openUntil = this._openUntil;
+    }
+
+    this._options.onStateChange(change);
+    this._stateChanges.next(change);
+  }
+}
+
+/**
+ * Routes each subscription to the source through a circuit breaker.
+ *
+ * While the circuit is open, subscribing errors immediately with a
+ * CircuitOpenError instead of subscribing to the source. The first value or
+ * completion counts as a success and an error as a failure. Place it before
+ * a retry operator so each retry asks the breaker again.
+ *
+ * @param breaker - The breaker shared by every caller of the dependency
+ * @returns An operator that protects the source
+ *
+ * @example
+ * ```typescript
+ * return this.http.get('/api/data').pipe(
+ *   withCircuitBreaker(breaker),
+ *   retryWithBackoff({ maxRetries: 3 })
+ * );
+ * ```
+ */
+export function withCircuitBreaker<T>(breaker: CircuitBreaker): MonoTypeOperatorFunction<T> {
+  return (source) =>
+    defer(() => {
+      const permit = breaker.acquire();
+
+      if (!permit) {
+        return throwError(() => new CircuitOpenError(breaker.name, breaker.retryAfterMs));
+      }
+
+      let settled = false;
+      const settle = (outcome: () => void) => {
+        if (!settled) {
+          settled = true;
+          outcome();
+        }
+      };
+
+      return new Observable<T>((subscriber) => {
+        const subscription = source.subscribe({
+          next: (value) => {
+            settle(() => breaker.recordSuccess(permit));
+            subscriber.next(value);
+          },
+          error: (error: unknown) => {
+            settle(() => breaker.recordFailure(error, permit));
+            subscriber.error(error);
+          },
+          complete: () => {
+            settle(() => breaker.recordSuccess(permit));
+            subscriber.complete();
+          }
+        });
+
+        return () => {
+          subscription.unsubscribe();
+          settle(() => breaker.release(permit));
+        };
+      });
+    });
+}
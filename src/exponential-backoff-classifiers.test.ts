@@ -0,0 +1,182 @@
+import { lastValueFrom, throwError } from "rxjs";
+import { describe, expect, it, vi } from "vitest";
+import { RetryManager } from "./exponential-backoff";
+import {
+  abortOn,
+  and,
+  causedBy,
+  composeClassifiers,
+  defaultErrorClassifier,
+  errorCode,
+  errorMessage,
+  errorName,
+  fetchErrorClassifier,
+  httpStatus,
+  httpStatusClassifier,
+  instanceOf,
+  isRetryableError,
+  networkErrorClassifier,
+  not,
+  or,
+  retryOn
+} from "./exponential-backoff-classifiers";
+import { RetryError } from "./exponential-backoff-errors";
+import { HttpRequestError } from "./exponential-backoff-example";
+import { retryWithBackoff } from "./exponential-backoff-operator";
+import { retryAsync } from "./exponential-backoff-retry-async";
+import { createBackoffDelayFunction } from "./exponential-backoff-timer";
+
+const networkError = (code: string) => Object.assign(new Error(code), { code });
+
+describe("error matchers", () => {
+  it("should match statuses and ranges from status, statusCode and response.status", () => {
+    const matcher = httpStatus(429, [500, 599]);
+
+    expect(matcher(new HttpRequestError("busy", 503))).toBe(true);
+    expect(matcher({ statusCode: 429 })).toBe(true);
+    expect(matcher({ response: { status: 500 } })).toBe(true);
+    expect(matcher({ status: 404 })).toBe(false);
+    expect(matcher(new Error("no status"))).toBe(false);
+    expect(matcher("503")).toBe(false);
+  });
+
+  it("should match names, codes, messages and classes", () => {
+    const error = networkError("ECONNRESET");
+
+    expect(errorName("Error")(error)).toBe(true);
+    expect(errorCode("ETIMEDOUT", "ECONNRESET")(error)).toBe(true);
+    expect(errorCode("ETIMEDOUT")(error)).toBe(false);
+    expect(errorMessage(/connreset/i)(error)).toBe(true);
+    expect(instanceOf(TypeError, RangeError)(error)).toBe(false);
+    expect(instanceOf(Error)(error)).toBe(true);
+    expect(errorName("Error")(null)).toBe(false);
+  });
+
+  it("should inspect the cause chain", () => {
+    const wrapped = new TypeError("fetch failed", {
+      cause: new Error("socket", { cause: networkError("ECONNRESET") })
+    });
+
+    expect(errorCode("ECONNRESET")(wrapped)).toBe(false);
+    expect(causedBy(errorCode("ECONNRESET"))(wrapped)).toBe(true);
+    expect(causedBy(errorCode("ETIMEDOUT"))(wrapped)).toBe(false);
+  });
+
+  it("should stop following cyclic cause chains", () => {
+    const error: { cause?: unknown } = {};
+    error.cause = error;
+
+    expect(causedBy(errorCode("ECONNRESET"))(error)).toBe(false);
+  });
+
+  it("should combine matchers with and, or and not", () => {
+    const serverError = httpStatus([500, 599]);
+    const notImplemented = httpStatus(501);
+    const matcher = or(and(serverError, not(notImplemented)), errorCode("ETIMEDOUT"));
+
+    expect(matcher({ status: 503 })).toBe(true);
+    expect(matcher({ status: 501 })).toBe(false);
+    expect(matcher(networkError("ETIMEDOUT"))).toBe(true);
+    expect(matcher({ status: 400 })).toBe(false);
+  });
+});
+
+describe("error classifiers", () => {
+  it("should let the first classifier with an opinion decide", () => {
+    const classifier = composeClassifiers(
+      abortOn(httpStatus(501)),
+      retryOn(httpStatus([500, 599])),
+      abortOn(httpStatus([400, 499]))
+    );
+
+    expect(classifier({ status: 501 })).toBe("abort");
+    expect(classifier({ status: 502 })).toBe("retry");
+    expect(classifier({ status: 404 })).toBe("abort");
+    expect(classifier({ status: 302 })).toBeUndefined();
+  });
+
+  it("should fall back when the classifier has no opinion", () => {
+    const classifier = retryOn(httpStatus(503));
+
+    expect(isRetryableError({ status: 503 }, classifier)).toBe(true);
+    expect(isRetryableError({ status: 302 }, classifier)).toBe(true);
+    expect(isRetryableError({ status: 302 }, classifier, "abort")).toBe(false);
+    expect(isRetryableError("anything", undefined)).toBe(true);
+  });
+
+  it("should classify HTTP statuses", () => {
+    expect(httpStatusClassifier({ status: 408 })).toBe("retry");
+    expect(httpStatusClassifier({ status: 429 })).toBe("retry");
+    expect(httpStatusClassifier({ status: 503 })).toBe("retry");
+    expect(httpStatusClassifier({ status: 501 })).toBe("abort");
+    expect(httpStatusClassifier({ status: 404 })).toBe("abort");
+    expect(httpStatusClassifier(new Error("no status"))).toBeUndefined();
+  });
+
+  it("should classify Node network errors anywhere in the cause chain", () => {
+    expect(networkErrorClassifier(networkError("ETIMEDOUT"))).toBe("retry");
+    expect(
+      networkErrorClassifier(new Error("request failed", { cause: networkError("EAI_AGAIN") }))
+    ).toBe("retry");
+    expect(networkErrorClassifier(networkError("ENOENT"))).toBeUndefined();
+  });
+
+  it("should classify fetch failures and cancellations", () => {
+    expect(fetchErrorClassifier(new TypeError("fetch failed"))).toBe("retry");
+    expect(fetchErrorClassifier(new TypeError("Failed to fetch"))).toBe("retry");
+    expect(fetchErrorClassifier(new TypeError("x is not a function"))).toBeUndefined();
+    expect(fetchErrorClassifier(new DOMException("aborted", "AbortError"))).toBe("abort");
+  });
+
+  it("should combine every preset in the default classifier", () => {
+    expect(defaultErrorClassifier(new TypeError("fetch failed"))).toBe("retry");
+    expect(defaultErrorClassifier(networkError("ECONNRESET"))).toBe("retry");
+    expect(defaultErrorClassifier({ status: 400 })).toBe("abort");
+    expect(defaultErrorClassifier(new Error("unknown"))).toBeUndefined();
+  });
+});
+
+describe("classifier integration", () => {
+  it("should drive RetryManager.shouldRetry", () => {
+    const manager = new RetryManager({ classifier: httpStatusClassifier });
+
+    expect(manager.shouldRetry({ status: 503 })).toBe(true);
+    expect(manager.shouldRetry({ status: 404 })).toBe(false);
+    expect(new RetryManager().shouldRetry({ status: 404 })).toBe(true);
+  });
+
+  it("should stop retryAsync on aborting errors", async () => {
+    const operation = vi.fn(() => Promise.reject(new HttpRequestError("Not Found", 404)));
+
+    const error: unknown = await retryAsync(operation, {
+      baseDelayMs: 1,
+      classifier: httpStatusClassifier
+    }).catch((rejection: unknown) => rejection);
+
+    expect(error).toBeInstanceOf(RetryError);
+    expect((error as RetryError).reason).toBe("non-retryable");
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-throw aborting errors from the delay function", async () => {
+    const delay = createBackoffDelayFunction({ baseDelayMs: 1, classifier: httpStatusClassifier });
+    const notFound = new HttpRequestError("Not Found", 404);
+
+    await expect(lastValueFrom(delay(notFound, 1))).rejects.toBe(notFound);
+    await expect(lastValueFrom(delay(new HttpRequestError("Busy", 503), 1))).resolves.toBe(0);
+  });
+
+  it("should stop retryWithBackoff on aborting errors", async () => {
+    const onGiveUp = vi.fn();
+
+    await expect(
+      lastValueFrom(
+        throwError(() => new HttpRequestError("Bad Request", 400)).pipe(
+          retryWithBackoff({ baseDelayMs: 1, classifier: httpStatusClassifier, onGiveUp })
+        )
+      )
+    ).rejects.toThrow("Bad Request");
+
+    expect(onGiveUp).toHaveBeenCalledWith(expect.any(HttpRequestError), 1);
+  });
+});
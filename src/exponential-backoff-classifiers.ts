@@ -0,0 +1,348 @@
+/**
+ * Composable classification of retryable and fatal errors.
+ *
+ * Retrying a failure that can never succeed (a 404, a validation error, a
+ * cancelled request) only adds load and latency. Instead of repeating ad-hoc
+ * `status < 500 && status !== 429` checks, build a classifier from small
+ * matchers and hand it to RetryManager, the RxJS helpers or retryAsync().
+ *
+ * @example
+ * ```typescript
+ * const classifier = composeClassifiers(
+ *   abortOn(errorName("ValidationError")),
+ *   retryOn(causedBy(errorCode("ECONNRESET", "ETIMEDOUT"))),
+ *   retryOn(httpStatus(429, [500, 599])),
+ *   abortOn(httpStatus([400, 499]))
+ * );
+ *
+ * new RetryManager({ classifier });
+ * source.pipe(retryWithBackoff({ classifier }));
+ * ```
+ */
+
+/**
+ * Decides whether an error matches some condition.
+ */
+export type ErrorMatcher = (error: unknown) => boolean;
+
+/**
+ * What should happen to a failed attempt.
+ *
+ * - `retry`: the failure is transient; retry with backoff
+ * - `abort`: the failure is fatal; re-throw it immediately
+ */
+export type ErrorClassification = "retry" | "abort";
+
+/**
+ * Classifies an error, or returns undefined when it has no opinion so that the
+ * next classifier in a {@link composeClassifiers} chain can decide.
+ */
+export type ErrorClassifier = (error: unknown) => ErrorClassification | undefined;
+
+/**
+ * A range of HTTP status codes, inclusive at both ends.
+ */
+export type StatusRange = readonly [min: number, max: number];
+
+/**
+ * The maximum number of `cause` links followed by {@link causedBy}, which
+ * protects against cyclic cause chains.
+ */
+const MAX_CAUSE_DEPTH = 10;
+
+/**
+ * Reads an HTTP status from `status`, `statusCode` or `response.status`.
+ */
+const getStatus = (error: unknown): number | undefined => {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  const { status, statusCode, response } = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  const candidate = status ?? statusCode ?? response?.status;
+
+  return typeof candidate === "number" ? candidate : undefined;
+};
+
+/**
+ * Reads a string property such as `name` or `code` from an error-like value.
+ */
+const getStringProperty = (error: unknown, key: "name" | "code" | "message") => {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  const value = (error as Record<string, unknown>)[key];
+  return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * Matches errors carrying one of the given HTTP statuses.
+ *
+ * The status is read from `status`, `statusCode` or `response.status`, which
+ * covers HttpRequestError, Node's `IncomingMessage`-style errors and Axios.
+ *
+ * @param statuses - Status codes or inclusive `[min, max]` ranges
+ * @returns A matcher for those statuses
+ *
+ * @example
+ * ```typescript
+ * httpStatus(408, 429, [500, 599]);
+ * ```
+ */
+export const httpStatus =
+  (...statuses: (number | StatusRange)[]): ErrorMatcher =>
+  (error) => {
+    const status = getStatus(error);
+
+    return (
+      status !== undefined &&
+      statuses.some((expected) =>
+        typeof expected === "number"
+          ? status === expected
+          : status >= expected[0] && status <= expected[1]
+      )
+    );
+  };
+
+/**
+ * Matches errors whose `name` is one of the given names.
+ *
+ * @param names - Error names such as "AbortError" or "TimeoutError"
+ * @returns A matcher for those names
+ */
+export const errorName =
+  (...names: string[]): ErrorMatcher =>
+  (error) => {
+    const name = getStringProperty(error, "name");
+    return name !== undefined && names.includes(name);
+  };
+
+/**
+ * Matches errors whose Node.js-style `code` is one of the given codes.
+ *
+ * @param codes - Error codes such as "ECONNRESET" or "ETIMEDOUT"
+ * @returns A matcher for those codes
+ */
+export const errorCode =
+  (...codes: string[]): ErrorMatcher =>
+  (error) => {
+    const code = getStringProperty(error, "code");
+    return code !== undefined && codes.includes(code);
+  };
+
+/**
+ * Matches errors whose `message` matches a pattern.
+ *
+ * @param pattern - The pattern to test the message against
+ * @returns A matcher for that message
+ */
+export const errorMessage =
+  (pattern: RegExp): ErrorMatcher =>
+  (error) => {
+    const message = getStringProperty(error, "message");
+    return message !== undefined && pattern.test(message);
+  };
+
+/**
+ * Matches instances of any of the given error classes.
+ *
+ * @param constructors - The error classes to match
+ * @returns A matcher for those classes
+ */
+export const instanceOf =
+  (...constructors: (abstract new (...args: never[]) => unknown)[]): ErrorMatcher =>
+  (error) =>
+    constructors.some((constructor) => error instanceof constructor);
+
+/**
+ * Matches errors where the error itself, or any error in its `cause` chain,
+ * matches the given matcher.
+ *
+ * Wrapped errors are common: fetch rejects with a TypeError whose `cause` is
+ * the socket error, and retry helpers attach the triggering error as `cause`.
+ *
+ * @param matcher - The matcher to apply along the chain
+ * @returns A matcher that inspects the whole cause chain
+ */
+export const causedBy =
+  (matcher: ErrorMatcher): ErrorMatcher =>
+  (error) => {
+    let current = error;
+
+    for (let depth = 0; depth <= MAX_CAUSE_DEPTH; depth++) {
+      if (matcher(current)) {
+        return true;
+      }
+
+      if (typeof current !== "object" || current === null || !("cause" in current)) {
+        return false;
+      }
+
+      current = current.cause;
+    }
+
+    return false;
+  };
+
+/**
+ * Matches errors that match every given matcher.
+ *
+ * @param matchers - The matchers to combine
+ * @returns A matcher that requires all of them
+ */
+export const and =
+  (...matchers: ErrorMatcher[]): ErrorMatcher =>
+  (error) =>
+    matchers.every((matcher) => matcher(error));
+
+/**
+ * Matches errors that match at least one given matcher.
+ *
+ * @param matchers - The matchers to combine
+ * @returns A matcher that requires any of them
+ */
+export const or =
+  (...matchers: ErrorMatcher[]): ErrorMatcher =>
+  (error) =>
+    matchers.some((matcher) => matcher(error));
+
+/**
+ * Matches errors that do not match the given matcher.
+ *
+ * @param matcher - The matcher to invert
+ * @returns The inverted matcher
+ */
+export const not =
+  (matcher: ErrorMatcher): ErrorMatcher =>
+  (error) =>
+    !matcher(error);
+
+/**
+ * Creates a classifier that retries errors matching any of the given matchers.
+ *
+ * @param matchers - The matchers for transient failures
+ * @returns A classifier returning "retry" on a match, or no opinion otherwise
+ */
+export const retryOn =
+  (...matchers: ErrorMatcher[]): ErrorClassifier =>
+  (error) =>
+    matchers.some((matcher) => matcher(error)) ? "retry" : undefined;
+
+/**
+ * Creates a classifier that aborts on errors matching any of the given matchers.
+ *
+ * @param matchers - The matchers for fatal failures
+ * @returns A classifier returning "abort" on a match, or no opinion otherwise
+ */
+export const abortOn =
+  (...matchers: ErrorMatcher[]): ErrorClassifier =>
+  (error) =>
+    matchers.some((matcher) => matcher(error)) ? "abort" : undefined;
+
+/**
+ * Combines classifiers into one; the first classifier with an opinion wins.
+ *
+ * @param classifiers - The classifiers to try, in order
+ * @returns The combined classifier
+ */
+export const composeClassifiers =
+  (...classifiers: ErrorClassifier[]): ErrorClassifier =>
+  (error) => {
+    for (const classifier of classifiers) {
+      const classification = classifier(error);
+
+      if (classification !== undefined) {
+        return classification;
+      }
+    }
+
+    return undefined;
+  };
+
+/**
+ * Decides whether an error should be retried according to a classifier.
+ *
+ * @param error - The error to classify
+ * @param classifier - The classifier to consult; without one every error is retried
+ * @param fallback - What to do when the classifier has no opinion
+ * @returns true if the error should be retried
+ */
+export const isRetryableError = (
+  error: unknown,
+  classifier: ErrorClassifier | undefined,
+  fallback: ErrorClassification = "retry"
+): boolean => (classifier?.(error) ?? fallback) === "retry";
+
+/**
+ * Retries timeouts, rate limiting and server errors; aborts on other client
+ * errors.
+ *
+ * Retries 408, 425, 429 and 5xx except 501 (Not Implemented) and 505 (HTTP
+ * Version Not Supported), which no amount of waiting will fix. Aborts on every
+ * other 4xx. Errors without a status are left to the next classifier.
+ */
+export const httpStatusClassifier: ErrorClassifier = composeClassifiers(
+  abortOn(httpStatus(501, 505)),
+  retryOn(httpStatus(408, 425, 429, [500, 599])),
+  abortOn(httpStatus([400, 499]))
+);
+
+/**
+ * Node.js and undici error codes for transient network failures.
+ */
+const TRANSIENT_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT"
+];
+
+/**
+ * Retries transient Node.js network errors such as ECONNRESET and ETIMEDOUT,
+ * anywhere in the `cause` chain.
+ */
+export const networkErrorClassifier: ErrorClassifier = retryOn(
+  causedBy(errorCode(...TRANSIENT_NETWORK_CODES))
+);
+
+/**
+ * Retries the TypeError that fetch rejects with when the network fails, and
+ * aborts when the request was cancelled through its AbortSignal.
+ *
+ * Browsers and runtimes word the TypeError differently ("fetch failed",
+ * "Failed to fetch", "NetworkError when attempting to fetch resource.",
+ * "Load failed"); all of them are recognized.
+ */
+export const fetchErrorClassifier: ErrorClassifier = composeClassifiers(
+  abortOn(errorName("AbortError")),
+  retryOn(
+    and(
+      instanceOf(TypeError),
+      errorMessage(/fetch failed|failed to fetch|networkerror|load failed/i)
+    )
+  )
+);
+
+/**
+ * The recommended classifier for HTTP clients: {@link fetchErrorClassifier},
+ * then {@link networkErrorClassifier}, then {@link httpStatusClassifier}.
+ * Errors none of them recognize are left to the caller's fallback.
+ */
+export const defaultErrorClassifier: ErrorClassifier = composeClassifiers(
+  fetchErrorClassifier,
+  networkErrorClassifier,
+  httpStatusClassifier
+);
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { RetryManager } from "./exponential-backoff";
+import {
+  parseBackoffConfig,
+  parseBackoffConfigFromEnv,
+  parseDuration,
+  validateBackoffOptions
+} from "./exponential-backoff-config";
+import { BackoffConfigError } from "./exponential-backoff-errors";
+import { BackoffTimerFactory } from "./exponential-backoff-timer";
+
+describe("parseDuration", () => {
+  it("should read numbers, unit suffixes and Infinity", () => {
+    expect(parseDuration(250)).toBe(250);
+    expect(parseDuration("250")).toBe(250);
+    expect(parseDuration("250ms")).toBe(250);
+    expect(parseDuration("1.5s")).toBe(1500);
+    expect(parseDuration("2m")).toBe(120000);
+    expect(parseDuration("1H")).toBe(3600000);
+    expect(parseDuration("Infinity")).toBe(Infinity);
+    expect(parseDuration("soon")).toBeNaN();
+    expect(parseDuration(true)).toBeNaN();
+  });
+});
+
+describe("validateBackoffOptions", () => {
+  it("should accept valid options", () => {
+    expect(
+      validateBackoffOptions({
+        baseDelayMs: 0,
+        maxDelayMs: Infinity,
+        jitterFactor: 1,
+        strategy: { type: "linear", incrementMs: 250 },
+        maxAttempts: Infinity
+      })
+    ).toEqual([]);
+  });
+
+  it("should report every invalid option", () => {
+    expect(
+      validateBackoffOptions({
+        baseDelayMs: -1,
+        maxDelayMs: NaN,
+        jitterFactor: 1.5,
+        jitterMode: "random" as never,
+        maxAttempts: 2.5,
+        maxElapsedMs: -5
+      }).map(({ path }) => path)
+    ).toEqual([
+      "baseDelayMs",
+      "maxDelayMs",
+      "jitterFactor",
+      "jitterMode",
+      "maxAttempts",
+      "maxElapsedMs"
+    ]);
+  });
+
+  it("should report a cap below the base delay", () => {
+    expect(validateBackoffOptions({ baseDelayMs: 2000, maxDelayMs: 1000 })).toEqual([
+      { path: "maxDelayMs", message: "must be at least baseDelayMs (2000)", value: 1000 }
+    ]);
+  });
+
+  it("should check strategies and policies", () => {
+    expect(
+      validateBackoffOptions({
+        strategy: { type: "exponential", multiplier: 0 },
+        policies: [{ baseDelayMs: 100 }, { jitterFactor: -1 }]
+      }).map(({ path }) => path)
+    ).toEqual(["strategy.multiplier", "policies[1].jitterFactor"]);
+    expect(validateBackoffOptions({ strategy: "quadratic" as never })[0]?.path).toBe("strategy");
+  });
+});
+
+describe("parseBackoffConfig", () => {
+  it("should normalize objects and JSON", () => {
+    expect(
+      parseBackoffConfig({
+        baseDelayMs: "250ms",
+        maxDelayMs: "5s",
+        jitterFactor: "0.1",
+        jitterMode: "full",
+        maxAttempts: 5,
+        maxElapsedMs: "2m"
+      })
+    ).toEqual({
+      ok: true,
+      config: {
+        baseDelayMs: 250,
+        maxDelayMs: 5000,
+        jitterFactor: 0.1,
+        jitterMode: "full",
+        maxAttempts: 5,
+        maxElapsedMs: 120000
+      }
+    });
+
+    expect(parseBackoffConfig('{ "strategy": { "type": "polynomial", "exponent": 3 } }')).toEqual({
+      ok: true,
+      config: { strategy: { type: "polynomial", exponent: 3 } }
+    });
+  });
+
+  it("should report field-level issues", () => {
+    const result = parseBackoffConfig({
+      baseDelayMs: "soon",
+      maxDelayMs: "-1s",
+      jitter: 0.5,
+      maxAttempts: "many"
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues).toEqual([
+      {
+        path: "baseDelayMs",
+        message: 'must be a number of milliseconds or a duration such as "250ms", "5s" or "2m"',
+        value: "soon"
+      },
+      { path: "jitter", message: "is not a backoff option", value: 0.5 },
+      { path: "maxAttempts", message: "must be a number", value: "many" },
+      { path: "maxDelayMs", message: "must be a number of at least 0", value: -1000 }
+    ]);
+  });
+
+  it("should reject input that is not an object", () => {
+    expect(parseBackoffConfig("{ nope")).toMatchObject({ ok: false, issues: [{ path: "" }] });
+    expect(parseBackoffConfig([1, 2])).toMatchObject({
+      ok: false,
+      issues: [{ path: "", message: "must be an object" }]
+    });
+  });
+});
+
+describe("parseBackoffConfigFromEnv", () => {
+  it("should read prefixed variables and report issues under their names", () => {
+    const env = {
+      BACKOFF_BASE_DELAY_MS: "250ms",
+      BACKOFF_MAX_TOTAL_DELAY_MS: "30s",
+      BACKOFF_STRATEGY: "fibonacci",
+      BACKOFF_MAX_ATTEMPTS: "Infinity",
+      PATH: "/usr/bin"
+    };
+
+    expect(parseBackoffConfigFromEnv(env)).toEqual({
+      ok: true,
+      config: {
+        baseDelayMs: 250,
+        maxTotalDelayMs: 30000,
+        strategy: "fibonacci",
+        maxAttempts: Infinity
+      }
+    });
+
+    expect(
+      parseBackoffConfigFromEnv(
+        {
+          HTTP_RETRY_JITTER_FACTOR: "2",
+          HTTP_RETRY_STRATEGY: '{ "type": "sideways" }',
+          HTTP_RETRY_TYPO: "1"
+        },
+        "HTTP_RETRY_"
+      )
+    ).toMatchObject({
+      ok: false,
+      issues: [
+        { path: "HTTP_RETRY_TYPO", message: "is not a backoff option" },
+        { path: "HTTP_RETRY_JITTER_FACTOR", message: "must be a number between 0 and 1" },
+        { path: "HTTP_RETRY_STRATEGY.type", value: "sideways" }
+      ]
+    });
+  });
+});
+
+describe("strict mode", () => {
+  it("should reject invalid options in the constructors", () => {
+    const invalid = { baseDelayMs: 5000, maxDelayMs: 1000, jitterFactor: 3, strict: true };
+
+    expect(() => new RetryManager(invalid)).toThrow(BackoffConfigError);
+    expect(() => new BackoffTimerFactory(invalid)).toThrow(
+      "Invalid backoff configuration: maxDelayMs must be at least baseDelayMs (5000); " +
+        "jitterFactor must be a number between 0 and 1"
+    );
+  });
+
+  it("should check the options against the defaults they are combined with", () => {
+    expect(() => new RetryManager({ maxDelayMs: 500, strict: true })).toThrow(
+      "Invalid backoff configuration: maxDelayMs must be at least baseDelayMs (1000)"
+    );
+    expect(() => new BackoffTimerFactory({ maxDelayMs: 500, strict: true })).toThrow(
+      BackoffConfigError
+    );
+    expect(() => new RetryManager({ baseDelayMs: 8000, strict: true })).toThrow(
+      "maxDelayMs must be at least baseDelayMs (8000)"
+    );
+  });
+
+  it("should keep clamping without strict mode", () => {
+    expect(() => new RetryManager({ baseDelayMs: -1 })).not.toThrow();
+    expect(() => new RetryManager({ baseDelayMs: 100, strict: true })).not.toThrow();
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Loading and validating backoff configuration.
+ *
+ * calculateExponentialBackoff() clamps whatever it is given, so a typo in a
+ * config file (a negative base delay, a cap below the base, a jitter factor of
+ * 20) silently produces a schedule nobody asked for. The helpers here read
+ * options from plain objects, JSON or environment variables, accept
+ * human-friendly durations such as "250ms", "5s" or "2m", and report every
+ * problem with the option it belongs to.
+ *
+ * @example
+ * ```typescript
+ * const result = parseBackoffConfigFromEnv(process.env);
+ *
+ * if (!result.ok) {
+ *   throw new BackoffConfigError(result.issues);
+ * }
+ *
+ * const manager = new RetryManager({ ...result.config, strict: true });
+ * ```
+ */
+
+import type {
+  BackoffOptions,
+  BackoffStrategyConfig,
+  BackoffStrategyName,
+  JitterMode,
+  RetryLimits
+} from "./exponential-backoff";
+import { BackoffConfigError, type BackoffConfigIssue } from "./exponential-backoff-errors";
+
+/**
+ * The backoff options and retry limits that can be loaded from configuration.
+ *
+ * Function-valued options such as `random` or a custom strategy cannot come
+ * from a config file and are left out.
+ */
+export interface BackoffConfig extends Omit<BackoffOptions, "random" | "strategy">, RetryLimits {
+  /**
+   * A built-in strategy, by name or with its tuning parameters.
+   *
+   * @defaultValue "exponential"
+   */
+  strategy?: BackoffStrategyName | BackoffStrategyConfig;
+}
+
+/**
+ * The outcome of parsing a backoff configuration.
+ */
+export type BackoffConfigResult =
+  | { ok: true; config: BackoffConfig }
+  | { ok: false; issues: BackoffConfigIssue[] };
+
+/**
+ * Options that can be checked by {@link validateBackoffOptions}.
+ */
+export type ValidatableBackoffOptions = BackoffOptions &
+  RetryLimits & { policies?: readonly (BackoffOptions & RetryLimits)[] | undefined };
+
+const jitterModes: readonly JitterMode[] = ["symmetric", "full", "equal", "decorrelated", "none"];
+
+const strategyNames: readonly BackoffStrategyName[] = [
+  "exponential",
+  "linear",
+  "fibonacci",
+  "polynomial",
+  "constant"
+];
+
+/**
+ * Options holding a duration, which may be written as "250ms", "5s", "2m" or "1h".
+ */
+const durationKeys = ["baseDelayMs", "maxDelayMs", "maxElapsedMs", "maxTotalDelayMs"] as const;
+
+const configKeys: readonly (keyof BackoffConfig)[] = [
+  ...durationKeys,
+  "jitterFactor",
+  "jitterMode",
+  "strategy",
+  "maxAttempts"
+];
+
+const durationUnits: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+const quoted = (values: readonly string[]) => values.map((value) => `"${value}"`).join(", ");
+
+/**
+ * Parses a number or a duration string into milliseconds.
+ *
+ * @param value - A number of milliseconds, or a string such as "250ms", "5s",
+ *                "2m", "1h", "1.5s", a bare number of milliseconds or "Infinity"
+ * @returns The duration in milliseconds, or NaN if the value is not a duration
+ *
+ * @example
+ * ```typescript
+ * parseDuration("5s"); // 5000
+ * parseDuration("250"); // 250
+ * parseDuration("soon"); // NaN
+ * ```
+ */
+export const parseDuration = (value: unknown): number => {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  if (typeof value !== "string") {
+    return NaN;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\+?infinity$/i.test(trimmed)) {
+    return Infinity;
+  }
+
+  const match = /^(-?\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i.exec(trimmed);
+
+  if (!match?.[1]) {
+    return NaN;
+  }
+
+  return Number(match[1]) * (durationUnits[(match[2] ?? "ms").toLowerCase()] ?? 1);
+};
+
+/**
+ * Checks backoff options and retry limits for values the calculation would
+ * otherwise clamp or misbehave on.
+ *
+ * Options that are not set are not checked. Backoff policies are checked
+ * too, with their issues reported under `policies[index]`.
+ *
+ * @param options - The options to check
+ * @param path - A prefix for the issue paths, used for nested options
+ * @returns Every problem found; empty when the options are valid
+ *
+ * @example
+ * ```typescript
+ * validateBackoffOptions({ baseDelayMs: 2000, maxDelayMs: 1000 });
+ * // [{ path: "maxDelayMs", message: "must be at least baseDelayMs (2000)", value: 1000 }]
+ * ```
+ */
+export const validateBackoffOptions = (
+  options: ValidatableBackoffOptions,
+  path = ""
+): BackoffConfigIssue[] => {
+  const issues: BackoffConfigIssue[] = [];
+  const report = (key: string, message: string, value: unknown) =>
+    issues.push({ path: `${path}${key}`, message, value });
+  const { baseDelayMs, maxDelayMs, jitterFactor, jitterMode, strategy, maxAttempts } = options;
+
+  if (baseDelayMs !== undefined && !(Number.isFinite(baseDelayMs) && baseDelayMs >= 0)) {
+    report("baseDelayMs", "must be a finite number of at least 0", baseDelayMs);
+  }
+
+  if (maxDelayMs !== undefined) {
+    if (!(maxDelayMs >= 0)) {
+      report("maxDelayMs", "must be a number of at least 0", maxDelayMs);
+    } else if (baseDelayMs !== undefined && baseDelayMs >= 0 && maxDelayMs < baseDelayMs) {
+      report("maxDelayMs", `must be at least baseDelayMs (${baseDelayMs})`, maxDelayMs);
+    }
+  }
+
+  if (jitterFactor !== undefined && !(jitterFactor >= 0 && jitterFactor <= 1)) {
+    report("jitterFactor", "must be a number between 0 and 1", jitterFactor);
+  }
+
+  if (jitterMode !== undefined && !jitterModes.includes(jitterMode)) {
+    report("jitterMode", `must be one of ${quoted(jitterModes)}`, jitterMode);
+  }
+
+  if (typeof strategy === "string" && !strategyNames.includes(strategy)) {
+    report("strategy", `must be one of ${quoted(strategyNames)}`, strategy);
+  } else if (typeof strategy === "object" && strategy !== null) {
+    const config = strategy as Partial<Record<string, unknown>>;
+
+    if (!strategyNames.includes(config["type"] as BackoffStrategyName)) {
+      report("strategy.type", `must be one of ${quoted(strategyNames)}`, config["type"]);
+    }
+
+    for (const [key, minimum] of [
+      ["multiplier", Number.MIN_VALUE],
+      ["incrementMs", 0],
+      ["exponent", 0]
+    ] as const) {
+      const value = config[key];
+
+      if (value !== undefined && !(typeof value === "number" && value >= minimum)) {
+        report(
+          `strategy.${key}`,
+          minimum > 0 ? "must be a number above 0" : "must be a number of at least 0",
+          value
+        );
+      }
+    }
+  }
+
+  if (
+    maxAttempts !== undefined &&
+    !(maxAttempts === Infinity || (Number.isInteger(maxAttempts) && maxAttempts >= 0))
+  ) {
+    report("maxAttempts", "must be a whole number of at least 0, or Infinity", maxAttempts);
+  }
+
+  for (const key of ["maxElapsedMs", "maxTotalDelayMs"] as const) {
+    const value = options[key];
+
+    if (value !== undefined && !(value >= 0)) {
+      report(key, "must be a number of at least 0", value);
+    }
+  }
+
+  options.policies?.forEach((policy, index) => {
+    issues.push(...validateBackoffOptions(policy, `${path}policies[${index}].`));
+  });
+
+  return issues;
+};
+
+/**
+ * Converts raw values into options, then validates the result.
+ */
+const parseEntries = (input: unknown, pathOf: (key: string) => string): BackoffConfigResult => {
+  let raw = input;
+
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch (error: unknown) {
+      return {
+        ok: false,
+        issues: [{ path: "", message: `is not valid JSON (${String(error)})`, value: input }]
+      };
+    }
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { ok: false, issues: [{ path: "", message: "must be an object", value: raw }] };
+  }
+
+  const config: Record<string, unknown> = {};
+  const issues: BackoffConfigIssue[] = [];
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (!configKeys.includes(key as keyof BackoffConfig)) {
+      issues.push({ path: pathOf(key), message: "is not a backoff option", value });
+      continue;
+    }
+
+    const converted = convertValue(key as keyof BackoffConfig, value);
+
+    if (Number.isNaN(converted)) {
+      issues.push({ path: pathOf(key), message: describeExpected(key), value });
+      continue;
+    }
+
+    config[key] = converted;
+  }
+
+  // Report each validation issue under the name the value was read from
+  for (const issue of validateBackoffOptions(config as BackoffConfig)) {
+    const [key = "", ...rest] = issue.path.split(".");
+    issues.push({ ...issue, path: [pathOf(key), ...rest].join(".") });
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, config: config as BackoffConfig };
+};
+
+/**
+ * Converts a raw config value into the option's type, or NaN if it cannot be.
+ */
+const convertValue = (key: keyof BackoffConfig, value: unknown): unknown => {
+  if ((durationKeys as readonly string[]).includes(key)) {
+    return parseDuration(value);
+  }
+
+  if (key === "jitterFactor" || key === "maxAttempts") {
+    if (typeof value === "number") {
+      return value;
+    }
+
+    return typeof value === "string" && value.trim() !== "" ? Number(value.trim()) : NaN;
+  }
+
+  if (key === "strategy" && typeof value === "string" && value.trim().startsWith("{")) {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return NaN;
+    }
+  }
+
+  return typeof value === "string" || (key === "strategy" && typeof value === "object" && value)
+    ? value
+    : NaN;
+};
+
+/**
+ * Describes what a config value should look like.
+ */
+const describeExpected = (key: string): string => {
+  if ((durationKeys as readonly string[]).includes(key)) {
+    return 'must be a number of milliseconds or a duration such as "250ms", "5s" or "2m"';
+  }
+
+  if (key === "jitterFactor" || key === "maxAttempts") {
+    return "must be a number";
+  }
+
+  return key === "strategy" ? "must be a strategy name or object" : "must be a string";
+};
+
+/**
+ * Parses and validates a backoff configuration from a plain object or a JSON
+ * string.
+ *
+ * Durations may be numbers of milliseconds or strings such as "250ms", "5s"
+ * or "2m"; `jitterFactor` and `maxAttempts` may be numeric strings. Unknown
+ * options are reported rather than ignored, so typos are caught.
+ *
+ * @param input - A plain object or a JSON string
+ * @returns The normalized config, or every problem found
+ *
+ * @example
+ * ```typescript
+ * const result = parseBackoffConfig('{ "baseDelayMs": "250ms", "maxDelayMs": "5s" }');
+ * // { ok: true, config: { baseDelayMs: 250, maxDelayMs: 5000 } }
+ *
+ * parseBackoffConfig({ baseDelayMs: -1, jitter: 0.5 });
+ * // { ok: false, issues: [{ path: "jitter", message: "is not a backoff option", ... }, ...] }
+ * ```
+ */
+export const parseBackoffConfig = (input: unknown): BackoffConfigResult =>
+  parseEntries(input, (key) => key);
+
+/**
+ * Parses and validates a backoff configuration from environment variables.
+ *
+ * Each option is read from the prefixed, upper snake case form of its name:
+ * `BACKOFF_BASE_DELAY_MS` for `baseDelayMs`, `BACKOFF_JITTER_MODE` for
+ * `jitterMode`, and so on. Issues are reported under the variable names.
+ *
+ * @param env - The environment, such as `process.env`
+ * @param prefix - The prefix shared by the variables
+ * @returns The normalized config, or every problem found
+ *
+ * @example
+ * ```typescript
+ * // BACKOFF_BASE_DELAY_MS=250ms BACKOFF_MAX_ATTEMPTS=5
+ * const result = parseBackoffConfigFromEnv(process.env);
+ * // { ok: true, config: { baseDelayMs: 250, maxAttempts: 5 } }
+ * ```
+ */
+export const parseBackoffConfigFromEnv = (
+  env: Readonly<Record<string, string | undefined>>,
+  prefix = "BACKOFF_"
+): BackoffConfigResult => {
+  const input: Record<string, string> = {};
+  const names = new Map<string, string>();
+
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined || !name.startsWith(prefix)) {
+      continue;
+    }
+
+    const key = name
+      .slice(prefix.length)
+      .toLowerCase()
+      .replace(/_([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+
+    input[key] = value;
+    names.set(key, name);
+  }
+
+  return parseEntries(input, (key) => names.get(key) ?? key);
+};
+
+/**
+ * Throws if backoff options are invalid. Used by the strict-mode constructors.
+ *
+ * @param options - The options to check
+ *
+ * @throws {BackoffConfigError} Listing every problem found
+ */
+export const assertValidBackoffOptions = (options: ValidatableBackoffOptions): void => {
+  const issues = validateBackoffOptions(options);
+
+  if (issues.length > 0) {
+    throw new BackoffConfigError(issues);
+  }
+};
@@ -0,0 +1,302 @@
+/**
+ * Typed errors raised by the retry helpers.
+ *
+ * Every error here carries enough context to tell why retrying stopped, so
+ * callers can distinguish "the operation kept failing" from "we chose to stop".
+ */
+
+import type { BackoffResult } from "./exponential-backoff";
+
+/**
+ * The retry limit that stopped a retry loop.
+ *
+ * - `maxAttempts`: the maximum number of retries was reached
+ * - `maxElapsedMs`: the deadline across all attempts was reached
+ * - `maxTotalDelayMs`: the budget for time spent waiting between attempts was used up
+ */
+export type RetryLimitReason = "maxAttempts" | "maxElapsedMs" | "maxTotalDelayMs";
+
+/**
+ * A snapshot of how far a retry loop has progressed.
+ */
+export interface RetryProgress {
+  /**
+   * The number of retries made so far.
+   */
+  attempts: number;
+
+  /**
+   * The time in milliseconds since the retry loop started.
+   */
+  elapsedMs: number;
+
+  /**
+   * The total time in milliseconds spent waiting between attempts.
+   */
+  totalDelayMs: number;
+}
+
+/**
+ * Thrown when a retry limit prevents another attempt.
+ *
+ * The original error that triggered the refused retry, when known, is
+ * available as `cause`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await retryManager.waitForNextRetry();
+ * } catch (error) {
+ *   if (error instanceof RetryExhaustedError && error.reason === "maxElapsedMs") {
+ *     // The deadline passed; report a timeout rather than a failure
+ *   }
+ * }
+ * ```
+ */
+export class RetryExhaustedError extends Error {
+  reason: RetryLimitReason;
+  attempts: number;
+  elapsedMs: number;
+  totalDelayMs: number;
+  constructor(reason: RetryLimitReason, progress: RetryProgress, options?: { cause?: unknown }) {
+    super(
+      `Retry limit reached: ${reason} (${progress.attempts} retries, ` +
+        `${Math.round(progress.elapsedMs)}ms elapsed, ${Math.round(progress.totalDelayMs)}ms waited)`,
+      options
+    );
+    this.name = "RetryExhaustedError";
+    this.reason = reason;
+    this.attempts = progress.attempts;
+    this.elapsedMs = progress.elapsedMs;
+    this.totalDelayMs = progress.totalDelayMs;
+  }
+}
+
+/**
+ * Thrown when a pending backoff wait is cancelled through an AbortSignal.
+ *
+ * The signal's `reason` is available as `cause`. The name is "AbortError" to
+ * match the DOMException that fetch and other platform APIs reject with, so
+ * existing `error.name === "AbortError"` checks keep working.
+ */
+export class AbortError extends Error {
+  constructor(message = "The operation was aborted", options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Thrown (and retried like any other retryable error) when a single attempt
+ * takes longer than its allowed time.
+ */
+export class AttemptTimeoutError extends Error {
+  timeoutMs: number;
+  attempt: number;
+  constructor(timeoutMs: number, attempt: number, options?: { cause?: unknown }) {
+    super(`Attempt ${attempt} timed out after ${Math.round(timeoutMs)}ms`, options);
+    this.name = "AttemptTimeoutError";
+    this.timeoutMs = timeoutMs;
+    this.attempt = attempt;
+  }
+}
+
+/**
+ * The outcome of one attempt made by a promise-based retry helper.
+ */
+export interface RetryAttemptRecord {
+  /**
+   * The attempt number, where 1 is the initial call.
+   */
+  attempt: number;
+
+  /**
+   * When the attempt started, in epoch milliseconds.
+   */
+  startedAt: number;
+
+  /**
+   * How long the attempt ran before failing.
+   */
+  durationMs: number;
+
+  /**
+   * The error the attempt failed with.
+   */
+  error: unknown;
+
+  /**
+   * The backoff scheduled after this attempt, if a retry followed it.
+   */
+  backoff?: BackoffResult;
+}
+
+/**
+ * Why a promise-based retry helper stopped retrying.
+ *
+ * - `non-retryable`: the last error was classified as not worth retrying
+ * - `exhausted`: a retry limit was reached (see RetryExhaustedError)
+ * - `budget-exhausted`: the shared retry budget was used up (see RetryBudgetExhaustedError)
+ * - `aborted`: the caller's AbortSignal was aborted
+ */
+export type RetryErrorReason = "non-retryable" | "exhausted" | "budget-exhausted" | "aborted";
+
+/**
+ * Thrown by the promise-based retry helpers when the operation did not succeed.
+ *
+ * Carries the full attempt history, so a single log line can show every error
+ * and every wait that led to the failure. The error that ended the loop is
+ * available as `cause`: the last operation error, a RetryExhaustedError, a
+ * RetryBudgetExhaustedError, or an AbortError.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await retryAsync(fetchUser, { maxAttempts: 3 });
+ * } catch (error) {
+ *   if (error instanceof RetryError) {
+ *     console.error(error.message, error.attempts.map((a) => a.error));
+ *   }
+ * }
+ * ```
+ */
+export class RetryError extends Error {
+  reason: RetryErrorReason;
+  attempts: RetryAttemptRecord[];
+  constructor(
+    reason: RetryErrorReason,
+    attempts: RetryAttemptRecord[],
+    options?: { cause?: unknown }
+  ) {
+    super(`Operation failed after ${attempts.length} attempt(s): ${reason}`, options);
+    this.name = "RetryError";
+    this.reason = reason;
+    this.attempts = attempts;
+  }
+
+  /**
+   * The error thrown by the last attempt.
+   */
+  get lastError(): unknown {
+    return this.attempts[this.attempts.length - 1]?.error;
+  }
+}
+
+/**
+ * Thrown instead of calling a dependency whose circuit breaker is open.
+ *
+ * `retryAfterMs` says how long until the breaker lets a probe request through.
+ */
+export class CircuitOpenError extends Error {
+  circuit: string;
+  retryAfterMs: number;
+  constructor(circuit: string, retryAfterMs: number, options?: { cause?: unknown }) {
+    super(`Circuit "${circuit}" is open; retry in ${Math.round(retryAfterMs)}ms`, options);
+    this.name = "CircuitOpenError";
+    this.circuit = circuit;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Thrown instead of scheduling a retry when a shared retry budget is used up.
+ *
+ * During an outage this means the fleet is already retrying as much as it is
+ * allowed to, so the original error (available as `cause`) should be surfaced
+ * to the caller straight away.
+ */
+export class RetryBudgetExhaustedError extends Error {
+  constructor(options?: { cause?: unknown }) {
+    super("Retry budget exhausted", options);
+    this.name = "RetryBudgetExhaustedError";
+  }
+}
+
+/**
+ * Thrown when polling reaches `maxPolls` before the polled resource is ready.
+ *
+ * The last value the resource reported, if any, is available as `lastValue`.
+ */
+export class PollExhaustedError extends Error {
+  polls: number;
+  lastValue: unknown;
+  constructor(polls: number, lastValue: unknown, options?: { cause?: unknown }) {
+    super(`Polling gave up after ${polls} polls`, options);
+    this.name = "PollExhaustedError";
+    this.polls = polls;
+    this.lastValue = lastValue;
+  }
+}
+
+/**
+ * One problem found in a backoff configuration.
+ */
+export interface BackoffConfigIssue {
+  /**
+   * Where the problem is: an option name such as `maxDelayMs`, a nested path
+   * such as `policies[0].baseDelayMs`, or an environment variable name.
+   */
+  path: string;
+
+  /**
+   * What is wrong, phrased to follow the path.
+   */
+  message: string;
+
+  /**
+   * The offending value.
+   */
+  value: unknown;
+}
+
+/**
+ * Thrown when a backoff configuration is invalid, such as by the strict-mode
+ * RetryManager and BackoffTimerFactory constructors.
+ *
+ * Every problem found is listed in `issues`, not just the first.
+ */
+export class BackoffConfigError extends Error {
+  issues: BackoffConfigIssue[];
+  constructor(issues: BackoffConfigIssue[], options?: { cause?: unknown }) {
+    super(
+      `Invalid backoff configuration: ${issues.map(({ path, message }) => (path ? `${path} ${message}` : message)).join("; ")}`,
+      options
+    );
+    this.name = "BackoffConfigError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when a retry profile cannot be registered or resolved: the name is
+ * unknown or already taken, or the profiles extend each other in a cycle.
+ */
+export class RetryProfileError extends Error {
+  profile: string;
+  constructor(profile: string, message: string, options?: { cause?: unknown }) {
+    super(`Retry profile "${profile}" ${message}`, options);
+    this.name = "RetryProfileError";
+    this.profile = profile;
+  }
+}
+
+/**
+ * Thrown by backoffFetch() for a response whose status is worth retrying,
+ * such as a 503 or a 429. The response is kept, unread, so that the body of
+ * the last one can still be inspected.
+ */
+export class HttpResponseError extends Error {
+  status: number;
+  headers: Headers;
+  response: Response;
+  constructor(response: Response, options?: { cause?: unknown }) {
+    super(
+      `Request to ${response.url || "<unknown>"} failed with ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+      options
+    );
+    this.name = "HttpResponseError";
+    this.status = response.status;
+    this.headers = response.headers;
+    this.response = response;
+  }
+}
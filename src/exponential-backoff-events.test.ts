@@ -0,0 +1,266 @@
+import { defer, lastValueFrom, NEVER, of, throwError } from "rxjs";
+import { describe, expect, it, vi } from "vitest";
+import { calculateExponentialBackoff, RetryManager } from "./exponential-backoff";
+import { RetryBudget } from "./exponential-backoff-budget";
+import { RetryExhaustedError } from "./exponential-backoff-errors";
+import {
+  createConsoleRetryLogger,
+  describeRetryEvent,
+  logRetryEvent,
+  type RetryEvent,
+  type RetryLogger
+} from "./exponential-backoff-events";
+import { retryWithBackoff } from "./exponential-backoff-operator";
+import { retryAsync } from "./exponential-backoff-retry-async";
+import { BackoffTimerFactory } from "./exponential-backoff-timer";
+
+const createLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn() }) satisfies RetryLogger;
+
+const types = (events: RetryEvent[]) => events.map(({ type, attempt }) => `${type}:${attempt}`);
+
+describe("describeRetryEvent", () => {
+  it("should describe scheduled retries with the backoff text", () => {
+    const backoff = calculateExponentialBackoff(2, { baseDelayMs: 100, jitterFactor: 0 });
+
+    expect(
+      describeRetryEvent({
+        type: "retry-scheduled",
+        attempt: 2,
+        timestamp: 0,
+        error: undefined,
+        backoff
+      })
+    ).toBe("Retry 2: 200ms (raw: 200ms, no jitter)");
+  });
+
+  it("should describe every other event", () => {
+    const base = { attempt: 3, timestamp: 0 };
+
+    expect(describeRetryEvent({ ...base, type: "attempt-started" })).toBe("Attempt 3 started");
+    expect(describeRetryEvent({ ...base, type: "attempt-failed", error: 1 })).toBe(
+      "Attempt 3 failed"
+    );
+    expect(describeRetryEvent({ ...base, type: "retry-succeeded" })).toBe("Attempt 3 succeeded");
+    expect(
+      describeRetryEvent({ ...base, type: "gave-up", error: 1, reason: "non-retryable" })
+    ).toBe("Gave up after attempt 3: non-retryable");
+    expect(describeRetryEvent({ ...base, type: "cancelled" })).toBe("Cancelled during attempt 3");
+  });
+});
+
+describe("logRetryEvent", () => {
+  it("should log structured fields at the event's level", () => {
+    const logger = createLogger();
+    const error = new Error("boom");
+    const backoff = calculateExponentialBackoff(1, { baseDelayMs: 100, jitterFactor: 0 });
+
+    logRetryEvent(logger, { type: "retry-scheduled", attempt: 1, timestamp: 0, error, backoff });
+    logRetryEvent(logger, { type: "retry-succeeded", attempt: 2, timestamp: 0 });
+    logRetryEvent(logger, {
+      type: "gave-up",
+      attempt: 4,
+      timestamp: 0,
+      error,
+      reason: "exhausted"
+    });
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      { event: "retry-scheduled", attempt: 1, delayMs: 100, err: error },
+      "Retry 1: 100ms (raw: 100ms, no jitter)"
+    );
+    expect(logger.info).toHaveBeenCalledWith(
+      { event: "retry-succeeded", attempt: 2 },
+      "Attempt 2 succeeded"
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      { event: "gave-up", attempt: 4, reason: "exhausted", err: error },
+      "Gave up after attempt 4: exhausted"
+    );
+  });
+
+  it("should write prefixed messages with the console logger", () => {
+    const debug = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    try {
+      logRetryEvent(createConsoleRetryLogger("my-client"), {
+        type: "attempt-started",
+        attempt: 1,
+        timestamp: 0
+      });
+
+      expect(debug).toHaveBeenCalledWith("[my-client] Attempt 1 started");
+    } finally {
+      debug.mockRestore();
+    }
+  });
+});
+
+describe("RetryManager events", () => {
+  it("should publish scheduled retries to events$, onEvent and the logger", () => {
+    const onEvent = vi.fn();
+    const logger = createLogger();
+    const manager = new RetryManager({ baseDelayMs: 100, jitterFactor: 0, onEvent, logger });
+    const events: RetryEvent[] = [];
+    manager.events$.subscribe((event) => events.push(event));
+
+    const error = new Error("boom");
+    const backoff = manager.scheduleNextRetry(error);
+
+    expect(events).toMatchObject([{ type: "retry-scheduled", attempt: 1, error, backoff }]);
+    expect(onEvent).toHaveBeenCalledWith(events[0]);
+    expect(logger.debug).toHaveBeenCalledTimes(1);
+  });
+
+  it("should publish gave-up when a limit or the budget refuses a retry", () => {
+    const limited = new RetryManager({ baseDelayMs: 1, maxAttempts: 0 });
+    const budgeted = new RetryManager({
+      baseDelayMs: 1,
+      retryBudget: new RetryBudget({ mode: "token-bucket", capacity: 0, refillPerSecond: 0 })
+    });
+    const events: RetryEvent[] = [];
+    limited.events$.subscribe((event) => events.push(event));
+    budgeted.events$.subscribe((event) => events.push(event));
+
+    expect(() => limited.scheduleNextRetry()).toThrow(RetryExhaustedError);
+    expect(() => budgeted.scheduleNextRetry()).toThrow();
+
+    expect(events).toMatchObject([
+      { type: "gave-up", attempt: 1, reason: "exhausted" },
+      { type: "gave-up", attempt: 1, reason: "budget-exhausted" }
+    ]);
+  });
+
+  it("should publish cancelled when a wait is aborted", async () => {
+    const controller = new AbortController();
+    const manager = new RetryManager({ baseDelayMs: 10000, jitterFactor: 0 });
+    const events: RetryEvent[] = [];
+    manager.events$.subscribe((event) => events.push(event));
+
+    const wait = manager.waitForNextRetry({ signal: controller.signal });
+    controller.abort();
+
+    await expect(wait).rejects.toThrow("aborted");
+    expect(types(events)).toEqual(["retry-scheduled:1", "cancelled:1"]);
+  });
+});
+
+describe("BackoffTimerFactory events", () => {
+  it("should publish scheduled retries with the scheduler's clock", () => {
+    const scheduler = { now: () => 1234, schedule: vi.fn() };
+    const factory = new BackoffTimerFactory({ baseDelayMs: 100, jitterFactor: 0, scheduler });
+    const events: RetryEvent[] = [];
+    factory.events$.subscribe((event) => events.push(event));
+
+    factory.calculate(1, undefined, "error");
+
+    expect(events).toMatchObject([
+      { type: "retry-scheduled", attempt: 1, timestamp: 1234, error: "error" }
+    ]);
+  });
+
+  it("should prefer a supplied logger over console debug logs", () => {
+    const debug = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const logger = createLogger();
+
+    try {
+      new BackoffTimerFactory({ jitterFactor: 0, enableDebugLogs: true, logger }).calculate(1);
+
+      expect(debug).not.toHaveBeenCalled();
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.objectContaining({ event: "retry-scheduled", delayMs: 1000 }),
+        "Retry 1: 1000ms (raw: 1000ms, no jitter)"
+      );
+    } finally {
+      debug.mockRestore();
+    }
+  });
+});
+
+describe("retryWithBackoff events", () => {
+  it("should report the whole lifecycle of a retried stream", async () => {
+    const events: RetryEvent[] = [];
+    let subscriptions = 0;
+    const source = defer(() => (++subscriptions < 3 ? throwError(() => "error") : of("ok")));
+
+    await lastValueFrom(
+      source.pipe(retryWithBackoff({ baseDelayMs: 1, onEvent: (event) => events.push(event) }))
+    );
+
+    expect(types(events)).toEqual([
+      "attempt-started:1",
+      "attempt-failed:1",
+      "retry-scheduled:1",
+      "attempt-started:2",
+      "attempt-failed:2",
+      "retry-scheduled:2",
+      "attempt-started:3",
+      "retry-succeeded:3"
+    ]);
+  });
+
+  it("should report gave-up when shouldRetry refuses an error", async () => {
+    const events: RetryEvent[] = [];
+
+    await expect(
+      lastValueFrom(
+        throwError(() => "fatal").pipe(
+          retryWithBackoff({ shouldRetry: () => false, onEvent: (event) => events.push(event) })
+        )
+      )
+    ).rejects.toBe("fatal");
+
+    expect(events.at(-1)).toMatchObject({
+      type: "gave-up",
+      attempt: 1,
+      error: "fatal",
+      reason: "non-retryable"
+    });
+  });
+
+  it("should report cancelled when unsubscribed", () => {
+    const events: RetryEvent[] = [];
+
+    NEVER.pipe(retryWithBackoff({ onEvent: (event) => events.push(event) }))
+      .subscribe()
+      .unsubscribe();
+
+    expect(types(events)).toEqual(["attempt-started:1", "cancelled:1"]);
+  });
+});
+
+describe("retryAsync events", () => {
+  it("should report the whole lifecycle of a retried operation", async () => {
+    const events: RetryEvent[] = [];
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValue("ok");
+
+    await retryAsync(operation, {
+      baseDelayMs: 1,
+      jitterFactor: 0,
+      onEvent: (event) => events.push(event)
+    });
+
+    expect(types(events)).toEqual([
+      "attempt-started:1",
+      "attempt-failed:1",
+      "retry-scheduled:1",
+      "attempt-started:2",
+      "retry-succeeded:2"
+    ]);
+  });
+
+  it("should report gave-up for non-retryable errors", async () => {
+    const logger = createLogger();
+
+    await expect(
+      retryAsync(() => Promise.reject(new Error("fatal")), { shouldRetry: () => false, logger })
+    ).rejects.toThrow();
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ event: "gave-up", reason: "non-retryable" }),
+      "Gave up after attempt 1: non-retryable"
+    );
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Structured retry lifecycle events.
+ *
+ * Every retry helper reports what it is doing as a typed event, so retries can
+ * be shipped to a log pipeline or turned into metrics instead of being read
+ * off `console.debug`. Events are delivered through an `events$` observable,
+ * an `onEvent` callback and an optional {@link RetryLogger}.
+ */
+
+import type { BackoffResult } from "./exponential-backoff";
+import type { RetryErrorReason } from "./exponential-backoff-errors";
+
+/**
+ * Fields shared by every retry lifecycle event.
+ */
+interface RetryEventBase {
+  /**
+   * The attempt the event belongs to, where 1 is the initial call.
+   */
+  attempt: number;
+
+  /**
+   * When the event happened, in milliseconds on the helper's clock (epoch
+   * milliseconds unless a custom scheduler is used).
+   */
+  timestamp: number;
+}
+
+/**
+ * An attempt is about to call the operation.
+ */
+export interface AttemptStartedEvent extends RetryEventBase {
+  type: "attempt-started";
+}
+
+/**
+ * An attempt failed. Whether it is retried is reported by a following
+ * `retry-scheduled` or `gave-up` event.
+ */
+export interface AttemptFailedEvent extends RetryEventBase {
+  type: "attempt-failed";
+  error: unknown;
+}
+
+/**
+ * A retry has been scheduled after a failed attempt, before the delay starts.
+ */
+export interface RetryScheduledEvent extends RetryEventBase {
+  type: "retry-scheduled";
+
+  /**
+   * The error that triggered the retry, when known.
+   */
+  error: unknown;
+
+  /**
+   * The full backoff calculation. `backoff.retryAttempt` equals `attempt`,
+   * unless backoff policies give the error class its own attempt count.
+   */
+  backoff: BackoffResult;
+}
+
+/**
+ * An attempt succeeded. `attempt` is 1 when no retry was needed.
+ */
+export interface RetrySucceededEvent extends RetryEventBase {
+  type: "retry-succeeded";
+}
+
+/**
+ * The helper stopped retrying and the failure is passed on to the caller.
+ */
+export interface GaveUpEvent extends RetryEventBase {
+  type: "gave-up";
+
+  /**
+   * The error that ended the loop: the last operation error, or the
+   * RetryExhaustedError or RetryBudgetExhaustedError that refused the retry.
+   */
+  error: unknown;
+
+  /**
+   * Why retrying stopped.
+   */
+  reason: Exclude<RetryErrorReason, "aborted">;
+}
+
+/**
+ * The caller cancelled the retry loop, through an AbortSignal or by
+ * unsubscribing. During a backoff wait, `attempt` is the attempt that was
+ * about to start.
+ */
+export interface CancelledEvent extends RetryEventBase {
+  type: "cancelled";
+}
+
+/**
+ * A retry lifecycle event.
+ *
+ * @example
+ * ```typescript
+ * manager.events$.subscribe((event) => {
+ *   if (event.type === "retry-scheduled") {
+ *     metrics.histogram("retry.delay", event.backoff.delayMs);
+ *   }
+ * });
+ * ```
+ */
+export type RetryEvent =
+  | AttemptStartedEvent
+  | AttemptFailedEvent
+  | RetryScheduledEvent
+  | RetrySucceededEvent
+  | GaveUpEvent
+  | CancelledEvent;
+
+/**
+ * A retry lifecycle event before its timestamp has been filled in.
+ */
+export type RetryEventInit = {
+  [K in RetryEvent["type"]]: Omit<Extract<RetryEvent, { type: K }>, "timestamp">;
+}[RetryEvent["type"]];
+
+/**
+ * The structured fields logged alongside each retry event's message.
+ */
+export interface RetryLogFields {
+  event: RetryEvent["type"];
+  attempt: number;
+  delayMs?: number;
+  reason?: GaveUpEvent["reason"];
+  err?: unknown;
+}
+
+/**
+ * A pluggable logger for retry events.
+ *
+ * The shape matches pino and bunyan (fields first, message second), so those
+ * loggers can be passed in directly. For winston, swap the arguments:
+ * `{ debug: (fields, message) => winston.debug(message, fields), ... }`.
+ */
+export interface RetryLogger {
+  debug(fields: RetryLogFields, message: string): void;
+  info(fields: RetryLogFields, message: string): void;
+  warn(fields: RetryLogFields, message: string): void;
+}
+
+/**
+ * Options for receiving retry lifecycle events, shared by every retry helper.
+ */
+export interface RetryEventOptions {
+  /**
+   * Called synchronously for every retry lifecycle event.
+   */
+  onEvent?: ((event: RetryEvent) => void) | undefined;
+
+  /**
+   * Receives a log line for every retry lifecycle event.
+   *
+   * @defaultValue No logging
+   */
+  logger?: RetryLogger | undefined;
+}
+
+/**
+ * Creates a logger that writes retry event messages to the console.
+ *
+ * Only the message is written, prefixed with `[prefix]`; the structured
+ * fields are left to real loggers.
+ *
+ * @param prefix - The tag written before each message
+ * @returns A console-backed RetryLogger
+ */
+export const createConsoleRetryLogger = (prefix: string): RetryLogger => ({
+  debug: (_fields, message) => console.debug(`[${prefix}] ${message}`),
+  info: (_fields, message) => console.info(`[${prefix}] ${message}`),
+  warn: (_fields, message) => console.warn(`[${prefix}] ${message}`)
+});
+
+/**
+ * Returns a human-readable description of a retry event.
+ *
+ * Retry-scheduled events use {@link BackoffResult.toString}, so the text
+ * matches the debug output of earlier versions.
+ *
+ * @param event - The event to describe
+ * @returns A one-line message
+ */
+export const describeRetryEvent = (event: RetryEvent): string => {
+  switch (event.type) {
+    case "attempt-started":
+      return `Attempt ${event.attempt} started`;
+    case "attempt-failed":
+      return `Attempt ${event.attempt} failed`;
+    case "retry-scheduled":
+      return event.backoff.toString();
+    case "retry-succeeded":
+      return `Attempt ${event.attempt} succeeded`;
+    case "gave-up":
+      return `Gave up after attempt ${event.attempt}: ${event.reason}`;
+    case "cancelled":
+      return `Cancelled during attempt ${event.attempt}`;
+  }
+};
+
+/**
+ * Writes a retry event to a logger at the event's level.
+ *
+ * Successes are logged at `info`, give-ups at `warn`, and everything else at
+ * `debug`.
+ *
+ * @param logger - The logger to write to
+ * @param event - The event to log
+ */
+export const logRetryEvent = (logger: RetryLogger, event: RetryEvent): void => {
+  const fields: RetryLogFields = { event: event.type, attempt: event.attempt };
+
+  if (event.type === "retry-scheduled") {
+    fields.delayMs = event.backoff.delayMs;
+  }
+
+  if (event.type === "gave-up") {
+    fields.reason = event.reason;
+  }
+
+  if ("error" in event && event.error !== undefined) {
+    fields.err = event.error;
+  }
+
+  const message = describeRetryEvent(event);
+
+  switch (event.type) {
+    case "retry-succeeded":
+      logger.info(fields, message);
+      break;
+    case "gave-up":
+      logger.warn(fields, message);
+      break;
+    default:
+      logger.debug(fields, message);
+  }
+};
@@ -1,15 +1,29 @@
 /**
  * Examples and patterns for using the exponential backoff timer.
  */
-import { Observable, retry } from "rxjs";
-import { createBackoffDelayFunction, createBackoffTimer } from "./exponential-backoff-timer";
+import { Observable } from "rxjs";
+import {
+  abortOn,
+  composeClassifiers,
+  httpStatus,
+  retryOn,
+  type ErrorClassifier
+} from "./exponential-backoff-classifiers";
+import { retryAfterFromHeaders } from "./exponential-backoff-hints";
+import { retryWithBackoff } from "./exponential-backoff-operator";
 
 export class HttpRequestError extends Error {
   status: number;
-  constructor(message: string, status: number, options?: { cause?: unknown }) {
+  headers: Record<string, string>;
+  constructor(
+    message: string,
+    status: number,
+    options?: { cause?: unknown; headers?: Record<string, string> }
+  ) {
     super(message, options);
     this.name = "HttpRequestError";
     this.status = status;
+    this.headers = options?.headers ?? {};
   }
 }
 
@@ -27,34 +41,32 @@ export const toError = (e: unknown): Error => {
   return new Error(typeof e === "string" ? e : JSON.stringify(e));
 };
 
+/**
+ * Retries 429 and every 5xx, and fails fast on any other status. Errors
+ * without a status, such as network failures, are retried.
+ */
+const serverErrorOrRateLimited: ErrorClassifier = composeClassifiers(
+  retryOn(httpStatus(429, [500, 599])),
+  abortOn(httpStatus([0, 499]))
+);
+
 /**
  * Example: HTTP Retry Service
  *
  * Shows how to integrate the new timer into modern RxJS retry patterns using
- * the retry operator instead of the deprecated retryWhen.
+ * the retryWithBackoff and retry operators instead of the deprecated retryWhen.
  */
 export class HttpRetryService {
-  private readonly backoffDelayFunction = createBackoffDelayFunction({
-    baseDelayMs: 250,
-    maxDelayMs: 1000,
-    jitterFactor: 0.25
-  });
-
   /**
-   * Example: Recommended retry implementation using retry operator.
+   * Example: Recommended retry implementation using the retryWithBackoff operator.
    */
   retryHttpRequestModern<T>(source: Observable<T>, maxRetries: number = 5): Observable<T> {
-    return source.pipe(
-      retry({
-        count: maxRetries,
-        delay: this.backoffDelayFunction
-      })
-    );
+    return source.pipe(retryWithBackoff({ profile: "interactive", maxRetries }));
   }
 
   /**
-   * Example: Using the simple delay function approach.
-   * This provides more control over retry logic while using modern operators.
+   * Example: Using a retry predicate.
+   * This provides more control over retry logic while keeping the operator's backoff.
    */
   retryHttpRequestWithCustomLogic<T>(
     source: Observable<T>,
@@ -62,47 +74,43 @@ export class HttpRetryService {
     shouldRetry?: (error: unknown) => boolean
   ): Observable<T> {
     return source.pipe(
-      retry({
-        count: maxRetries,
-        delay: (error, retryCount) => {
-          // Custom retry logic.
-          if (shouldRetry && !shouldRetry(error)) {
-            throw error;
-          }
-
-          return createBackoffTimer(retryCount, {
-            baseDelayMs: 1000,
-            maxDelayMs: 5000,
-            jitterFactor: 0.2
-          });
-        }
-      })
+      retryWithBackoff({ maxRetries, shouldRetry: (error) => !shouldRetry || shouldRetry(error) })
     );
   }
 
   /**
    * Example: HTTP-specific retry logic with status code handling.
+   *
+   * Rate-limited responses back off from 2s and wait for as long as the
+   * server asks through `Retry-After` or `X-RateLimit-Reset`, up to the 30s
+   * cap. Each error class backs off from its own attempt count and gets its
+   * own `maxRetries`, so a burst of 429s neither inflates the delay before
+   * retrying a 503 nor uses up the retries left for it.
    */
   retryHttpWithStatusCodeLogic<T>(source: Observable<T>, maxRetries = 5): Observable<T> {
     return source.pipe(
-      retry({
-        count: maxRetries,
-        delay: (error: HttpRequestError, retryCount) => {
-          // Only retry on 5xx and 429; fail fast on other 4xx
-          if (error.status < 500 && error.status !== 429) {
-            throw error;
-          }
-
-          // Longer delay for rate limiting.
-          const baseDelayMs = error.status === 429 ? 2000 : 1000;
-
-          // Create a backoff timer and return it so it can be scheduled.
-          return createBackoffTimer(retryCount, {
-            baseDelayMs,
-            maxDelayMs: 30000,
-            jitterFactor: 0.25
-          });
-        }
+      retryWithBackoff({
+        maxDelayMs: 30000,
+        jitterFactor: 0.25,
+        // Only retry on 5xx and 429; fail fast on other 4xx
+        classifier: serverErrorOrRateLimited,
+        policies: [
+          {
+            name: "rate-limited",
+            match: httpStatus(429),
+            baseDelayMs: 2000,
+            maxAttempts: maxRetries
+          },
+          {
+            name: "unavailable",
+            match: httpStatus(503),
+            baseDelayMs: 1000,
+            maxAttempts: maxRetries
+          },
+          // Other 5xx and network errors share the last class
+          { name: "other", match: () => true, maxAttempts: maxRetries }
+        ],
+        retryAfter: retryAfterFromHeaders
       })
     );
   }
@@ -0,0 +1,230 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { lastValueFrom } from "rxjs";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { BackoffResult } from "./exponential-backoff";
+import { HttpResponseError, RetryError } from "./exponential-backoff-errors";
+import { backoffFetch, fetchWithBackoff } from "./exponential-backoff-fetch";
+
+type Handler = (response: ServerResponse) => void;
+
+interface ReceivedRequest {
+  method: string | undefined;
+  body: string;
+  idempotencyKey: string | string[] | undefined;
+}
+
+const reply =
+  (status: number, body = "", headers: Record<string, string> = {}): Handler =>
+  (response) => {
+    response.writeHead(status, headers);
+    response.end(body);
+  };
+
+// Never answers, like a dependency that hangs
+const hang: Handler = () => {};
+
+let server: Server;
+let url: string;
+let handlers: Handler[] = [];
+let received: ReceivedRequest[] = [];
+
+const fast = { baseDelayMs: 1, jitterFactor: 0 };
+
+beforeAll(async () => {
+  server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let body = "";
+    request.on("data", (chunk: Buffer) => (body += chunk.toString()));
+    request.on("end", () => {
+      received.push({
+        method: request.method,
+        body,
+        idempotencyKey: request.headers["idempotency-key"]
+      });
+      (handlers.shift() ?? reply(200, "ok"))(response);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/resource`;
+});
+
+beforeEach(() => {
+  handlers = [];
+  received = [];
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("backoffFetch", () => {
+  it("should retry server errors and replay the request body", async () => {
+    handlers = [reply(503), reply(500), reply(200, "done")];
+
+    const response = await backoffFetch(url, { method: "PUT", body: "payload" }, fast);
+
+    expect(await response.text()).toBe("done");
+    expect(received.map(({ method, body }) => `${method} ${body}`)).toEqual([
+      "PUT payload",
+      "PUT payload",
+      "PUT payload"
+    ]);
+  });
+
+  it("should wait as long as Retry-After asks", async () => {
+    handlers = [reply(429, "", { "Retry-After": "0.05" })];
+    const backoffs: BackoffResult[] = [];
+
+    const response = await backoffFetch(url, undefined, {
+      ...fast,
+      onRetry: (_error, _attempt, backoff) => backoffs.push(backoff)
+    });
+
+    expect(response.status).toBe(200);
+    expect(backoffs.map(({ delayMs, retryAfterMs }) => [delayMs, retryAfterMs])).toEqual([
+      [50, 50]
+    ]);
+  });
+
+  it("should return responses that are not worth retrying", async () => {
+    handlers = [reply(404, "missing")];
+
+    const response = await backoffFetch(url, undefined, fast);
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe("missing");
+    expect(received).toHaveLength(1);
+  });
+
+  it("should send non-idempotent requests once unless they carry an Idempotency-Key", async () => {
+    handlers = [reply(503)];
+    const response = await backoffFetch(url, { method: "POST", body: "order" }, fast);
+
+    expect(response.status).toBe(503);
+    expect(received).toHaveLength(1);
+
+    handlers = [reply(503)];
+    received = [];
+    const keyed = await backoffFetch(
+      url,
+      { method: "POST", body: "order", headers: { "Idempotency-Key": "order-1" } },
+      fast
+    );
+
+    expect(keyed.status).toBe(200);
+    expect(received.map(({ idempotencyKey }) => idempotencyKey)).toEqual(["order-1", "order-1"]);
+
+    handlers = [reply(503)];
+    await expect(
+      backoffFetch(url, { method: "POST" }, { ...fast, retryMethods: ["POST"] })
+    ).resolves.toMatchObject({ status: 200 });
+  });
+
+  it("should attach the attempt history when retries run out", async () => {
+    handlers = [reply(500), reply(502), reply(503, "still down")];
+
+    const error: unknown = await backoffFetch(url, undefined, { ...fast, maxAttempts: 2 }).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(RetryError);
+    const { reason, attempts, lastError } = error as RetryError;
+    expect(reason).toBe("exhausted");
+    expect(attempts.map(({ error }) => (error as HttpResponseError).status)).toEqual([
+      500, 502, 503
+    ]);
+    expect(lastError).toBeInstanceOf(HttpResponseError);
+    expect(await (lastError as HttpResponseError).response.text()).toBe("still down");
+  });
+
+  it("should retry network failures but not other errors", async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const refused = (await backoffFetch(`http://127.0.0.1:${port}/`, undefined, {
+      ...fast,
+      maxAttempts: 1
+    }).catch((e: unknown) => e)) as RetryError;
+
+    expect(refused.reason).toBe("exhausted");
+    expect(refused.attempts).toHaveLength(2);
+    expect(refused.lastError).toBeInstanceOf(TypeError);
+
+    const failing = (await backoffFetch(url, undefined, {
+      ...fast,
+      fetch: () => Promise.reject(new Error("bug"))
+    }).catch((e: unknown) => e)) as RetryError;
+
+    expect(failing.reason).toBe("non-retryable");
+    expect(failing.attempts).toHaveLength(1);
+  });
+
+  it("should retry attempts that time out", async () => {
+    handlers = [hang];
+
+    const response = await backoffFetch(url, undefined, { ...fast, attemptTimeoutMs: 50 });
+
+    expect(response.status).toBe(200);
+    expect(received).toHaveLength(2);
+  });
+
+  it("should cancel with the caller's signal", async () => {
+    handlers = [hang];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const error = (await backoffFetch(url, { signal: controller.signal }, fast).catch(
+      (e: unknown) => e
+    )) as RetryError;
+
+    expect(error.reason).toBe("aborted");
+    expect(error.attempts).toHaveLength(1);
+  });
+
+  it("should let a custom shouldRetry decide", async () => {
+    handlers = [reply(404), reply(404)];
+    const seen: unknown[] = [];
+
+    const response = await backoffFetch(url, undefined, {
+      ...fast,
+      shouldRetry: (error, attempt) => {
+        seen.push(error);
+        return attempt < 2;
+      }
+    });
+
+    expect(response.status).toBe(404);
+    expect(received).toHaveLength(2);
+    expect(seen.every((error) => error instanceof HttpResponseError)).toBe(true);
+  });
+});
+
+describe("fetchWithBackoff", () => {
+  it("should emit the first usable response", async () => {
+    handlers = [reply(503), reply(200, "from rxjs")];
+
+    const response = await lastValueFrom(fetchWithBackoff(url, undefined, fast));
+
+    expect(await response.text()).toBe("from rxjs");
+    expect(received).toHaveLength(2);
+  });
+
+  it("should abort the request when unsubscribed", async () => {
+    handlers = [hang];
+    const errors: unknown[] = [];
+    const subscription = fetchWithBackoff(url, undefined, fast).subscribe({
+      error: (error: unknown) => errors.push(error)
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    subscription.unsubscribe();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(received).toHaveLength(1);
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * fetch() with exponential backoff.
+ *
+ * fetch is what gets retried most, and every app ends up writing the same
+ * wrapper: turn 5xx and 429 responses into errors, tell network failures from
+ * bugs, wait for `Retry-After`, and avoid replaying a POST that may already
+ * have gone through. backoffFetch() is that wrapper, built on retryAsync(), and
+ * fetchWithBackoff() offers the same behavior as an Observable.
+ *
+ * @example
+ * ```typescript
+ * const response = await backoffFetch(
+ *   "https://api.example.com/orders",
+ *   { signal: controller.signal },
+ *   { maxAttempts: 4, maxDelayMs: 30000, attemptTimeoutMs: 5000 }
+ * );
+ * ```
+ */
+
+import { Observable } from "rxjs";
+import { defaultErrorClassifier, isRetryableError } from "./exponential-backoff-classifiers";
+import { AttemptTimeoutError, HttpResponseError } from "./exponential-backoff-errors";
+import { retryAfterFromHeaders } from "./exponential-backoff-hints";
+import { retryAsync, type RetryAsyncOptions } from "./exponential-backoff-retry-async";
+import { linkAbortSignals } from "./exponential-backoff-sleep";
+
+/**
+ * The HTTP methods RFC 9110 §9.2.2 defines as idempotent, which are safe to
+ * send again when the outcome of an attempt is unknown.
+ */
+export const IDEMPOTENT_HTTP_METHODS: readonly string[] = [
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "TRACE",
+  "PUT",
+  "DELETE"
+];
+
+/**
+ * Configuration options for {@link backoffFetch} and {@link fetchWithBackoff}.
+ *
+ * Accepts every {@link RetryAsyncOptions} option. `retryAfter` defaults to
+ * `retryAfterFromHeaders`, and `classifier` to `defaultErrorClassifier`, with
+ * errors it has no opinion on treated as fatal.
+ */
+export interface BackoffFetchOptions extends RetryAsyncOptions {
+  /**
+   * The methods that are retried. Requests with other methods are sent once,
+   * unless they carry an `Idempotency-Key` header, which tells the server to
+   * deduplicate them.
+   *
+   * @defaultValue {@link IDEMPOTENT_HTTP_METHODS}
+   */
+  retryMethods?: readonly string[] | undefined;
+
+  /**
+   * The fetch implementation to call, for runtimes without a global fetch or
+   * to add instrumentation.
+   *
+   * @defaultValue globalThis.fetch
+   */
+  fetch?: typeof fetch | undefined;
+}
+
+/**
+ * Decides whether a request may be sent more than once.
+ */
+const isReplayable = (request: Request, retryMethods: readonly string[]): boolean =>
+  retryMethods.includes(request.method.toUpperCase()) || request.headers.has("idempotency-key");
+
+/**
+ * Calls fetch until it returns a response that is not worth retrying, waiting
+ * with exponential backoff between attempts.
+ *
+ * A request is retried when:
+ * - its method is idempotent, or it carries an `Idempotency-Key` header, and
+ * - fetch failed with a network error, the attempt timed out, or the response
+ *   status is one `httpStatusClassifier` retries (408, 425, 429 and most 5xx)
+ *
+ * Retried responses have their body cancelled, and the wait honors their
+ * `Retry-After` header, clamped to `maxDelayMs`. Every other response is
+ * returned as is, whatever its status, just like fetch itself would.
+ *
+ * @param input - The URL or Request to fetch
+ * @param init - The request options; `init.signal` cancels the request and the
+ *               pending waits
+ * @param options - Backoff configuration, limits, retry policy and callbacks
+ * @returns The first response that is not retried
+ *
+ * @throws {RetryError} When no usable response arrived. `attempts` holds every
+ *         attempt with its error and wait, and `cause` is the error that ended
+ *         the loop; an HttpResponseError when the last response was retryable.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const response = await backoffFetch(`/api/users/${id}`, undefined, { maxAttempts: 3 });
+ *   return await response.json();
+ * } catch (error) {
+ *   if (error instanceof RetryError && error.lastError instanceof HttpResponseError) {
+ *     console.error(error.message, await error.lastError.response.text());
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export async function backoffFetch(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  options: BackoffFetchOptions = {}
+): Promise<Response> {
+  const {
+    retryMethods = IDEMPOTENT_HTTP_METHODS,
+    fetch: fetchImpl = globalThis.fetch,
+    shouldRetry,
+    onRetry,
+    ...retryOptions
+  } = options;
+  const request = new Request(input, init);
+  const replayable = isReplayable(request, retryMethods);
+  const signal = init?.signal ?? options.signal;
+
+  const isRetryable = (error: unknown, attempt: number): boolean =>
+    shouldRetry
+      ? shouldRetry(error, attempt)
+      : error instanceof AttemptTimeoutError ||
+        isRetryableError(error, options.classifier ?? defaultErrorClassifier, "abort");
+
+  return retryAsync(
+    async (attempt, attemptSignal) => {
+      const response = await fetchImpl(request.clone(), { signal: attemptSignal });
+
+      if (response.ok || !replayable) {
+        return response;
+      }
+
+      const error = new HttpResponseError(response);
+
+      if (!isRetryable(error, attempt)) {
+        return response;
+      }
+
+      throw error;
+    },
+    {
+      retryAfter: retryAfterFromHeaders,
+      ...retryOptions,
+      ...(signal && { signal }),
+      // Responses are only thrown once they have been found retryable
+      shouldRetry: (error, attempt) =>
+        replayable && (error instanceof HttpResponseError || isRetryable(error, attempt)),
+      onRetry: (error, attempt, result) => {
+        if (error instanceof HttpResponseError) {
+          // Free the connection; a retried response is never read
+          error.response.body?.cancel().catch(() => {});
+        }
+
+        onRetry?.(error, attempt, result);
+      }
+    }
+  );
+}
+
+/**
+ * Creates an Observable that fetches with exponential backoff, like
+ * {@link backoffFetch}, emitting the response and completing.
+ *
+ * Every subscription sends the request anew. Unsubscribing before the
+ * response arrives aborts the attempt in flight and any pending wait; once
+ * the response has been emitted its body can be read after unsubscribing.
+ *
+ * @param input - The URL or Request to fetch
+ * @param init - The request options; `init.signal` cancels the request too
+ * @param options - Backoff configuration, limits, retry policy and callbacks
+ * @returns An Observable of the first response that is not retried
+ *
+ * @example
+ * ```typescript
+ * fetchWithBackoff("/api/orders", undefined, { profile: "interactive", maxAttempts: 3 })
+ *   .pipe(switchMap((response) => response.json()))
+ *   .subscribe({ next: render, error: showError });
+ * ```
+ */
+export function fetchWithBackoff(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  options: BackoffFetchOptions = {}
+): Observable<Response> {
+  return new Observable<Response>((subscriber) => {
+    const controller = new AbortController();
+    const linked = linkAbortSignals(init?.signal ?? options.signal, controller.signal);
+    let settled = false;
+
+    backoffFetch(input, { ...init, signal: linked.signal }, options).then(
+      (response) => {
+        settled = true;
+        subscriber.next(response);
+        subscriber.complete();
+      },
+      (error: unknown) => {
+        settled = true;
+        subscriber.error(error);
+      }
+    );
+
+    return () => {
+      // Aborting after the response arrived would cut off its body
+      if (!settled) {
+        controller.abort();
+      }
+
+      linked.dispose();
+    };
+  });
+}
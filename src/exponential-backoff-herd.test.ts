@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { compareJitterModes, simulateThunderingHerd } from "./exponential-backoff-herd";
+
+const backoff = { baseDelayMs: 100, maxDelayMs: 10000 };
+
+describe("simulateThunderingHerd", () => {
+  it("should keep a fleet without jitter in lockstep", () => {
+    const result = simulateThunderingHerd(
+      { ...backoff, jitterMode: "none" },
+      { clients: 100, failureWindowMs: 1000 }
+    );
+
+    // Every client fails at 0, 100, 300 and 700ms and gets through at 1500ms
+    expect(result.totalRequests).toBe(500);
+    expect(result.recovered).toBe(100);
+    expect(result.gaveUp).toBe(0);
+    expect(result.peakArrivals).toBe(100);
+    expect(result.peakArrivalsAfterRecovery).toBe(100);
+    expect(result.peakConcurrency).toBe(100);
+    expect(result.drainMs).toBe(500);
+    expect(result.histogram).toHaveLength(16);
+    expect(result.histogram[7]).toEqual({ startMs: 700, arrivals: 100, failures: 100 });
+    expect(result.histogram[15]).toEqual({ startMs: 1500, arrivals: 100, failures: 0 });
+    expect(result.histogram[8]).toEqual({ startMs: 800, arrivals: 0, failures: 0 });
+  });
+
+  it("should be reproducible with a seed", () => {
+    const scenario = { clients: 200, failureWindowMs: 2000, seed: 7 };
+
+    expect(simulateThunderingHerd(backoff, scenario)).toEqual(
+      simulateThunderingHerd(backoff, scenario)
+    );
+    expect(simulateThunderingHerd(backoff, { ...scenario, seed: 8 })).not.toEqual(
+      simulateThunderingHerd(backoff, scenario)
+    );
+  });
+
+  it("should count clients that run out of retries", () => {
+    const result = simulateThunderingHerd(backoff, {
+      clients: 10,
+      failureWindowMs: Infinity,
+      maxAttempts: 2
+    });
+
+    expect(result.totalRequests).toBe(30);
+    expect(result.gaveUp).toBe(10);
+    expect(result.recovered).toBe(0);
+    expect(result.drainMs).toBe(0);
+    expect(result.peakArrivalsAfterRecovery).toBe(0);
+  });
+
+  it("should measure overlapping requests", () => {
+    const result = simulateThunderingHerd(backoff, {
+      clients: 10,
+      failureWindowMs: 0,
+      arrivalSpreadMs: 1000,
+      requestDurationMs: 5000
+    });
+
+    expect(result.totalRequests).toBe(10);
+    expect(result.peakConcurrency).toBe(10);
+    expect(result.drainMs).toBeGreaterThan(5000);
+    expect(result.drainMs).toBeLessThanOrEqual(6000);
+  });
+});
+
+describe("compareJitterModes", () => {
+  it("should show jitter spreading the herd", () => {
+    const results = compareJitterModes(backoff, {
+      clients: 500,
+      failureWindowMs: 3000,
+      requestDurationMs: 20,
+      maxAttempts: 20,
+      seed: 42
+    });
+
+    expect(Object.keys(results).sort()).toEqual([
+      "decorrelated",
+      "equal",
+      "full",
+      "none",
+      "symmetric"
+    ]);
+
+    for (const mode of ["symmetric", "full", "equal", "decorrelated"] as const) {
+      expect(results[mode].recovered).toBe(500);
+      expect(results[mode].peakArrivalsAfterRecovery).toBeLessThan(
+        results.none.peakArrivalsAfterRecovery
+      );
+      // Jitter cannot spread the first requests, which all arrive at once
+      expect(results[mode].peakConcurrency).toBe(500);
+    }
+
+    expect(results.none.peakArrivalsAfterRecovery).toBe(500);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Thundering-herd simulation.
+ *
+ * Jitter exists to spread the retries of a fleet that failed at the same
+ * moment, but how well it does that depends on the fleet size, the outage
+ * and the backoff configuration. simulateThunderingHerd() replays an outage
+ * in virtual time: every client fails while the dependency is down and
+ * retries on its own backoff schedule, and the arrivals are bucketed into a
+ * histogram. All randomness comes from a seeded source, so a simulation gives
+ * the same answer on every machine and can be asserted on in CI.
+ *
+ * @example
+ * ```typescript
+ * const results = compareJitterModes(
+ *   { baseDelayMs: 500, maxDelayMs: 30000 },
+ *   { clients: 5000, failureWindowMs: 20000, bucketMs: 1000 }
+ * );
+ *
+ * for (const [mode, { peakArrivals, drainMs }] of Object.entries(results)) {
+ *   console.log(`${mode}: peak ${peakArrivals}/s, drained ${drainMs}ms after recovery`);
+ * }
+ * ```
+ */
+
+import {
+  calculateExponentialBackoff,
+  createSeededRandom,
+  type BackoffOptions,
+  type JitterMode
+} from "./exponential-backoff";
+
+/**
+ * The outage and fleet to simulate.
+ */
+export interface ThunderingHerdScenario {
+  /**
+   * The number of clients calling the dependency.
+   */
+  clients: number;
+
+  /**
+   * How long the dependency is down, in milliseconds from the start of the
+   * simulation. Every request that arrives before then fails.
+   */
+  failureWindowMs: number;
+
+  /**
+   * The time in milliseconds over which the clients' first requests arrive,
+   * spread uniformly. 0 means every client calls at the same moment, the
+   * worst case.
+   *
+   * @defaultValue 0
+   */
+  arrivalSpreadMs?: number;
+
+  /**
+   * How long a request takes in milliseconds, before its retry is scheduled.
+   * Requests that overlap count towards the peak concurrency.
+   *
+   * @defaultValue 0
+   */
+  requestDurationMs?: number;
+
+  /**
+   * The maximum number of retries per client before it gives up.
+   *
+   * @defaultValue 10
+   */
+  maxAttempts?: number;
+
+  /**
+   * The width of the histogram buckets in milliseconds.
+   *
+   * @defaultValue 100
+   */
+  bucketMs?: number;
+
+  /**
+   * The seed for the simulated randomness. Takes precedence over the backoff
+   * options' `random`.
+   *
+   * @defaultValue 1
+   */
+  seed?: number;
+}
+
+/**
+ * The requests that arrived within one histogram bucket.
+ */
+export interface HerdBucket {
+  /**
+   * The start of the bucket, in milliseconds from the start of the simulation.
+   */
+  startMs: number;
+
+  /**
+   * The number of requests that arrived in the bucket.
+   */
+  arrivals: number;
+
+  /**
+   * The number of those requests that failed because the dependency was down.
+   */
+  failures: number;
+}
+
+/**
+ * The outcome of a thundering-herd simulation.
+ */
+export interface ThunderingHerdResult {
+  /**
+   * The requests per time bucket, from the start of the simulation to the
+   * last arrival, including empty buckets.
+   */
+  histogram: HerdBucket[];
+
+  /**
+   * The number of requests made by all clients, including their first.
+   */
+  totalRequests: number;
+
+  /**
+   * The most requests that arrived in a single bucket.
+   */
+  peakArrivals: number;
+
+  /**
+   * The most requests that arrived in a single bucket after the dependency
+   * recovered, which is the load the recovering dependency has to absorb.
+   */
+  peakArrivalsAfterRecovery: number;
+
+  /**
+   * The most requests in flight at the same time. Without a
+   * `requestDurationMs`, the most requests that arrived at the same instant.
+   */
+  peakConcurrency: number;
+
+  /**
+   * The time in milliseconds from the recovery of the dependency until the
+   * last client got through, or 0 if no client got through.
+   */
+  drainMs: number;
+
+  /**
+   * The number of clients whose request eventually succeeded.
+   */
+  recovered: number;
+
+  /**
+   * The number of clients that ran out of retries during the outage.
+   */
+  gaveUp: number;
+}
+
+/**
+ * The jitter modes compared by {@link compareJitterModes}.
+ */
+const jitterModes: readonly JitterMode[] = ["none", "symmetric", "full", "equal", "decorrelated"];
+
+/**
+ * Returns the highest number of overlapping requests.
+ */
+const peakOverlap = (arrivals: readonly number[], durationMs: number): number => {
+  const ends = arrivals.map((arrivedAt) => arrivedAt + durationMs);
+  let finished = 0;
+  let peak = 0;
+
+  arrivals.forEach((arrivedAt, index) => {
+    // A request without a duration overlaps only with the ones arriving at the same instant
+    while (
+      finished < ends.length &&
+      (durationMs > 0 ? (ends[finished] ?? 0) <= arrivedAt : (ends[finished] ?? 0) < arrivedAt)
+    ) {
+      finished++;
+    }
+
+    peak = Math.max(peak, index + 1 - finished);
+  });
+
+  return peak;
+};
+
+/**
+ * Simulates a fleet of clients retrying through an outage.
+ *
+ * Each client sends a request; while the dependency is down the request
+ * fails and the client retries after its backoff delay, carrying the
+ * previous delay like the retry helpers do, until a request arrives after the
+ * failure window or it runs out of retries. The simulation runs in virtual
+ * time and is deterministic for a given seed.
+ *
+ * @param options - The backoff configuration every client uses
+ * @param scenario - The fleet size, outage and histogram resolution
+ * @returns The arrival histogram, peaks and time to drain
+ *
+ * @example
+ * ```typescript
+ * const { peakArrivalsAfterRecovery, drainMs } = simulateThunderingHerd(
+ *   { baseDelayMs: 1000, maxDelayMs: 30000, jitterMode: "full" },
+ *   { clients: 1000, failureWindowMs: 10000, seed: 42 }
+ * );
+ * ```
+ */
+export const simulateThunderingHerd = (
+  options: BackoffOptions,
+  {
+    clients,
+    failureWindowMs,
+    arrivalSpreadMs = 0,
+    requestDurationMs = 0,
+    maxAttempts = 10,
+    bucketMs = 100,
+    seed = 1
+  }: ThunderingHerdScenario
+): ThunderingHerdResult => {
+  const random = createSeededRandom(seed);
+  const backoffOptions: BackoffOptions = { ...options, random };
+  const bucketWidthMs = Math.max(1, bucketMs);
+  const arrivals: number[] = [];
+  const failures: number[] = [];
+  let recovered = 0;
+  let gaveUp = 0;
+  let lastRecoveryAt: number | undefined;
+
+  for (let client = 0; client < clients; client++) {
+    let arrivedAt = arrivalSpreadMs > 0 ? random() * arrivalSpreadMs : 0;
+    let previousDelayMs: number | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      arrivals.push(arrivedAt);
+
+      if (arrivedAt >= failureWindowMs) {
+        recovered++;
+        lastRecoveryAt = Math.max(lastRecoveryAt ?? 0, arrivedAt + requestDurationMs);
+        break;
+      }
+
+      failures.push(arrivedAt);
+
+      if (attempt > maxAttempts) {
+        gaveUp++;
+        break;
+      }
+
+      const { delayMs } = calculateExponentialBackoff(
+        attempt,
+        backoffOptions,
+        previousDelayMs === undefined ? {} : { previousDelayMs }
+      );
+      previousDelayMs = delayMs;
+      arrivedAt += requestDurationMs + delayMs;
+    }
+  }
+
+  arrivals.sort((a, b) => a - b);
+
+  const lastBucket = Math.floor((arrivals[arrivals.length - 1] ?? 0) / bucketWidthMs);
+  const histogram: HerdBucket[] = Array.from({ length: lastBucket + 1 }, (_, index) => ({
+    startMs: index * bucketWidthMs,
+    arrivals: 0,
+    failures: 0
+  }));
+
+  for (const arrivedAt of arrivals) {
+    const bucket = histogram[Math.floor(arrivedAt / bucketWidthMs)];
+
+    if (bucket) {
+      bucket.arrivals++;
+    }
+  }
+
+  for (const failedAt of failures) {
+    const bucket = histogram[Math.floor(failedAt / bucketWidthMs)];
+
+    if (bucket) {
+      bucket.failures++;
+    }
+  }
+
+  return {
+    histogram,
+    totalRequests: arrivals.length,
+    peakArrivals: histogram.reduce((peak, bucket) => Math.max(peak, bucket.arrivals), 0),
+    // Requests that did not fail arrived after the recovery
+    peakArrivalsAfterRecovery: histogram.reduce(
+      (peak, bucket) => Math.max(peak, bucket.arrivals - bucket.failures),
+      0
+    ),
+    peakConcurrency: peakOverlap(arrivals, requestDurationMs),
+    drainMs: lastRecoveryAt === undefined ? 0 : Math.max(0, lastRecoveryAt - failureWindowMs),
+    recovered,
+    gaveUp
+  };
+};
+
+/**
+ * Runs the same thundering-herd simulation with every jitter mode.
+ *
+ * Every mode sees the same fleet, outage and seed, so the results differ only
+ * by how the jitter spreads the retries.
+ *
+ * @param options - The backoff configuration; its `jitterMode` is replaced
+ * @param scenario - The fleet size, outage and histogram resolution
+ * @returns The simulation result for each jitter mode
+ */
+export const compareJitterModes = (
+  options: BackoffOptions,
+  scenario: ThunderingHerdScenario
+): Record<JitterMode, ThunderingHerdResult> =>
+  Object.fromEntries(
+    jitterModes.map((jitterMode) => [
+      jitterMode,
+      simulateThunderingHerd({ ...options, jitterMode }, scenario)
+    ])
+  ) as Record<JitterMode, ThunderingHerdResult>;
@@ -0,0 +1,202 @@
+import { defer, lastValueFrom, of, throwError } from "rxjs";
+import { describe, expect, it } from "vitest";
+import {
+  calculateExponentialBackoff,
+  RetryManager,
+  type BackoffResult
+} from "./exponential-backoff";
+import { HttpRequestError } from "./exponential-backoff-example";
+import {
+  parseRateLimitReset,
+  parseRetryAfter,
+  readHeader,
+  retryAfterFromHeaders
+} from "./exponential-backoff-hints";
+import { retryWithBackoff } from "./exponential-backoff-operator";
+import { BackoffTimerFactory } from "./exponential-backoff-timer";
+
+const now = Date.parse("2025-08-18T12:00:00Z");
+
+describe("parseRetryAfter", () => {
+  it("should parse delay-seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120000);
+    expect(parseRetryAfter(" 1.5 ")).toBe(1500);
+  });
+
+  it("should parse HTTP-dates relative to now", () => {
+    expect(parseRetryAfter("Mon, 18 Aug 2025 12:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter("Mon, 18 Aug 2025 11:59:00 GMT", now)).toBe(0);
+  });
+
+  it("should ignore missing and malformed values", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("")).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter("-5")).toBeUndefined();
+  });
+});
+
+describe("parseRateLimitReset", () => {
+  it("should parse delta seconds", () => {
+    expect(parseRateLimitReset("30", now)).toBe(30000);
+  });
+
+  it("should parse epoch seconds and milliseconds", () => {
+    expect(parseRateLimitReset(String(now / 1000 + 10), now)).toBe(10000);
+    expect(parseRateLimitReset(String(now + 2500), now)).toBe(2500);
+    expect(parseRateLimitReset(String(now / 1000 - 10), now)).toBe(0);
+  });
+
+  it("should ignore missing and malformed values", () => {
+    expect(parseRateLimitReset(undefined)).toBeUndefined();
+    expect(parseRateLimitReset("tomorrow")).toBeUndefined();
+  });
+});
+
+describe("readHeader", () => {
+  it("should read from Headers instances", () => {
+    expect(readHeader(new Headers({ "Retry-After": "5" }), "retry-after")).toBe("5");
+    expect(readHeader(new Headers(), "retry-after")).toBeUndefined();
+  });
+
+  it("should read from plain objects case-insensitively", () => {
+    expect(readHeader({ "Retry-After": "5" }, "retry-after")).toBe("5");
+    expect(readHeader({ "x-ratelimit-reset": 7 }, "X-RateLimit-Reset")).toBe("7");
+    expect(readHeader({ "set-cookie": ["a", "b"] }, "set-cookie")).toBe("a");
+    expect(readHeader({}, "retry-after")).toBeUndefined();
+  });
+});
+
+describe("retryAfterFromHeaders", () => {
+  it("should read Retry-After from error.headers", () => {
+    const error = new HttpRequestError("Too Many Requests", 429, {
+      headers: { "Retry-After": "3" }
+    });
+
+    expect(retryAfterFromHeaders(error)).toBe(3000);
+  });
+
+  it("should read from error.response.headers and fall back to X-RateLimit-Reset", () => {
+    const error = { response: { headers: new Headers({ "X-RateLimit-Reset": "4" }) } };
+
+    expect(retryAfterFromHeaders(error)).toBe(4000);
+  });
+
+  it("should return undefined when the error carries no headers", () => {
+    expect(retryAfterFromHeaders(new Error("boom"))).toBeUndefined();
+    expect(retryAfterFromHeaders("boom")).toBeUndefined();
+    expect(retryAfterFromHeaders(null)).toBeUndefined();
+    expect(retryAfterFromHeaders({ status: 500 })).toBeUndefined();
+  });
+});
+
+describe("calculateExponentialBackoff with server hints", () => {
+  const options = { baseDelayMs: 100, maxDelayMs: 5000, jitterFactor: 0 };
+
+  it("should floor the computed delay by default", () => {
+    expect(calculateExponentialBackoff(1, options, { retryAfterMs: 2000 }).delayMs).toBe(2000);
+    expect(calculateExponentialBackoff(4, options, { retryAfterMs: 50 }).delayMs).toBe(800);
+  });
+
+  it("should override the computed delay when configured", () => {
+    const result = calculateExponentialBackoff(4, options, {
+      retryAfterMs: 50,
+      retryAfterMode: "override"
+    });
+
+    expect(result.delayMs).toBe(50);
+    expect(result.retryAfterMs).toBe(50);
+  });
+
+  it("should clamp hints to maxDelayMs", () => {
+    const result = calculateExponentialBackoff(1, options, { retryAfterMs: 60000 });
+
+    expect(result.delayMs).toBe(5000);
+    expect(result.retryAfterMs).toBe(5000);
+    expect(result.toString()).toBe("Retry 1: 5000ms (raw: 100ms, no jitter, retry-after: 5000ms)");
+  });
+
+  it("should record when no hint was used", () => {
+    expect(calculateExponentialBackoff(1, options).retryAfterMs).toBeUndefined();
+  });
+});
+
+describe("BackoffTimerFactory with server hints", () => {
+  it("should read hints from the error passed to calculate", () => {
+    const factory = new BackoffTimerFactory({
+      baseDelayMs: 100,
+      jitterFactor: 0,
+      retryAfter: retryAfterFromHeaders,
+      retryAfterMode: "override"
+    });
+    const error = new HttpRequestError("Too Many Requests", 429, {
+      headers: { "retry-after": "1" }
+    });
+
+    expect(factory.calculate(3, undefined, error).delayMs).toBe(1000);
+    expect(factory.calculate(3).delayMs).toBe(400);
+  });
+
+  it("should not read hints unless an extractor is configured", () => {
+    const factory = new BackoffTimerFactory({ baseDelayMs: 100, jitterFactor: 0 });
+    const error = new HttpRequestError("Too Many Requests", 429, {
+      headers: { "retry-after": "1" }
+    });
+
+    expect(factory.calculate(1, undefined, error).retryAfterMs).toBeUndefined();
+  });
+
+  it("should pass errors through retryWithBackoff", async () => {
+    let subscriptions = 0;
+    const results: BackoffResult[] = [];
+    const source = defer(() =>
+      ++subscriptions === 1
+        ? throwError(
+            () =>
+              new HttpRequestError("Too Many Requests", 429, { headers: { "retry-after": "0.02" } })
+          )
+        : of("ok")
+    );
+
+    await lastValueFrom(
+      source.pipe(
+        retryWithBackoff({
+          baseDelayMs: 1,
+          jitterFactor: 0,
+          retryAfter: retryAfterFromHeaders,
+          onRetry: (_error, _attempt, result) => results.push(result)
+        })
+      )
+    );
+
+    expect(results[0]?.delayMs).toBe(20);
+    expect(results[0]?.retryAfterMs).toBe(20);
+  });
+});
+
+describe("RetryManager with server hints", () => {
+  it("should read hints from the error that triggered the retry", () => {
+    const error = new HttpRequestError("Too Many Requests", 429, {
+      headers: { "retry-after": "2" }
+    });
+    const manager = new RetryManager({
+      baseDelayMs: 100,
+      jitterFactor: 0,
+      retryAfter: retryAfterFromHeaders
+    });
+
+    expect(manager.previewNextDelay(error).delayMs).toBe(2000);
+    expect(manager.scheduleNextRetry(error).retryAfterMs).toBe(2000);
+    expect(manager.scheduleNextRetry().delayMs).toBe(200);
+
+    const overriding = new RetryManager({
+      baseDelayMs: 1000,
+      jitterFactor: 0,
+      retryAfter: () => 10,
+      retryAfterMode: "override"
+    });
+    expect(overriding.scheduleNextRetry(error).delayMs).toBe(10);
+    expect(new RetryManager({ jitterFactor: 0 }).scheduleNextRetry(error).delayMs).toBe(1000);
+  });
+});
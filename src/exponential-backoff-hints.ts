@@ -0,0 +1,183 @@
+/**
+ * Server-requested delay hints.
+ *
+ * Rate limiters and overloaded services often tell clients exactly how long to
+ * wait, using the standard `Retry-After` header or the de facto
+ * `X-RateLimit-Reset` header. Retrying before that time only earns another
+ * rejection, so these helpers turn those headers into a delay that the backoff
+ * calculation can respect.
+ */
+
+/**
+ * Extracts a server-requested delay from an error.
+ *
+ * @param error - The error that triggered the retry
+ * @returns The requested delay in milliseconds, or undefined when the error
+ *          carries no hint
+ */
+export type RetryAfterExtractor = (error: unknown) => number | undefined;
+
+/**
+ * How a server-requested delay is combined with the computed backoff.
+ *
+ * - `floor`: wait for whichever is longer, the computed backoff or the hint
+ * - `override`: wait for exactly the hint, ignoring the computed backoff
+ *
+ * In both modes the hint is clamped to `maxDelayMs`.
+ */
+export type RetryAfterMode = "floor" | "override";
+
+/**
+ * Anything that headers can be read from: a fetch `Headers` instance, or a
+ * plain object such as Node's `IncomingHttpHeaders` or an Axios header bag.
+ */
+export type HeadersLike =
+  | { get(name: string): string | null | undefined }
+  | Record<string, string | string[] | number | undefined>;
+
+/**
+ * Parses a `Retry-After` header value into a delay.
+ *
+ * The header comes in two forms (RFC 9110 §10.2.3): a number of seconds, or an
+ * HTTP-date after which the request may be retried.
+ *
+ * @param value - The raw header value
+ * @param now - The current time in epoch milliseconds, for HTTP-date values
+ * @returns The delay in milliseconds (never negative), or undefined when the
+ *          value is missing or malformed
+ *
+ * @example
+ * ```typescript
+ * parseRetryAfter("120"); // 120000
+ * parseRetryAfter("Wed, 21 Oct 2015 07:28:00 GMT"); // ms until that date, or 0 if passed
+ * ```
+ */
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined => {
+  const trimmed = value?.trim();
+
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  // HTTP-dates always contain a day or month name; this also stops Date.parse
+  // from accepting bare numbers such as "-5" as years
+  const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Parses an `X-RateLimit-Reset`-style header value into a delay.
+ *
+ * Providers disagree on the format, so the value is interpreted by magnitude:
+ * - Above 1e12: an epoch timestamp in milliseconds
+ * - Above 1e9: an epoch timestamp in seconds (GitHub, Twitter)
+ * - Otherwise: a number of seconds until the reset (IETF draft `RateLimit-Reset`)
+ *
+ * @param value - The raw header value
+ * @param now - The current time in epoch milliseconds, for timestamp values
+ * @returns The delay in milliseconds (never negative), or undefined when the
+ *          value is missing or malformed
+ */
+export const parseRateLimitReset = (
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined => {
+  const trimmed = value?.trim();
+
+  if (!trimmed || !/^\d+(\.\d+)?$/.test(trimmed)) {
+    return undefined;
+  }
+
+  const reset = Number(trimmed);
+
+  if (reset > 1e12) {
+    return Math.max(0, reset - now);
+  }
+
+  if (reset > 1e9) {
+    return Math.max(0, reset * 1000 - now);
+  }
+
+  return reset * 1000;
+};
+
+/**
+ * Reads a header from a {@link HeadersLike} value, case-insensitively.
+ *
+ * @param headers - The headers to read from
+ * @param name - The header name
+ * @returns The header value, or undefined when it is not present
+ */
+export const readHeader = (headers: HeadersLike, name: string): string | undefined => {
+  if (typeof headers.get === "function") {
+    return (headers as { get(name: string): string | null | undefined }).get(name) ?? undefined;
+  }
+
+  const lowerName = name.toLowerCase();
+  const entries = Object.entries(headers as Record<string, string | string[] | number | undefined>);
+
+  for (const [key, value] of entries) {
+    if (key.toLowerCase() === lowerName && value !== undefined) {
+      return Array.isArray(value) ? value[0] : String(value);
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Finds the response headers attached to an error.
+ *
+ * Looks at `error.headers` first and then `error.response.headers`, which
+ * covers fetch wrappers, Angular's `HttpErrorResponse` and Axios errors.
+ */
+const findHeaders = (error: unknown): HeadersLike | undefined => {
+  if (typeof error !== "object" || error === null) {
+    return undefined;
+  }
+
+  const { headers, response } = error as { headers?: unknown; response?: { headers?: unknown } };
+  const candidate = headers ?? response?.headers;
+
+  return typeof candidate === "object" && candidate !== null
+    ? (candidate as HeadersLike)
+    : undefined;
+};
+
+/**
+ * The default {@link RetryAfterExtractor}: reads `Retry-After`, falling back to
+ * `X-RateLimit-Reset`, from the headers attached to the error.
+ *
+ * @param error - The error that triggered the retry
+ * @returns The requested delay in milliseconds, or undefined
+ *
+ * @example
+ * ```typescript
+ * source.pipe(
+ *   retryWithBackoff({
+ *     maxDelayMs: 30000,
+ *     retryAfter: retryAfterFromHeaders,
+ *     retryAfterMode: "floor"
+ *   })
+ * );
+ * ```
+ */
+export const retryAfterFromHeaders: RetryAfterExtractor = (error) => {
+  const headers = findHeaders(error);
+
+  if (!headers) {
+    return undefined;
+  }
+
+  return (
+    parseRetryAfter(readHeader(headers, "retry-after")) ??
+    parseRateLimitReset(readHeader(headers, "x-ratelimit-reset"))
+  );
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { RetryManager } from "./exponential-backoff";
+import type { RetryEvent } from "./exponential-backoff-events";
+import {
+  createRetryInstrumentation,
+  type RetryAttributes,
+  type RetryMeter,
+  type RetrySpan
+} from "./exponential-backoff-instrumentation";
+import { retryAsync } from "./exponential-backoff-retry-async";
+
+/**
+ * An in-memory stand-in for the OpenTelemetry tracer and meter.
+ */
+const createTelemetry = () => {
+  const spanEvents: { name: string; attributes: RetryAttributes | undefined }[] = [];
+  const measurements: { name: string; value: number; attributes: RetryAttributes | undefined }[] =
+    [];
+
+  const span: RetrySpan = {
+    addEvent: (name, attributes) => spanEvents.push({ name, attributes })
+  };
+  const meter: RetryMeter = {
+    createCounter: (name) => ({
+      add: (value, attributes) => measurements.push({ name, value, attributes })
+    }),
+    createHistogram: (name) => ({
+      record: (value, attributes) => measurements.push({ name, value, attributes })
+    })
+  };
+
+  return { tracer: { getActiveSpan: () => span }, meter, spanEvents, measurements };
+};
+
+describe("createRetryInstrumentation", () => {
+  it("should record a span event per retry", () => {
+    const { tracer, spanEvents } = createTelemetry();
+    const manager = new RetryManager({
+      baseDelayMs: 100,
+      maxDelayMs: 150,
+      jitterFactor: 0,
+      onEvent: createRetryInstrumentation({ operation: "users.fetch", tracer })
+    });
+
+    manager.scheduleNextRetry(new TypeError("network"));
+    manager.scheduleNextRetry("timeout");
+
+    expect(spanEvents).toEqual([
+      {
+        name: "retry",
+        attributes: {
+          "retry.operation": "users.fetch",
+          "retry.attempt": 1,
+          "retry.delay_ms": 100,
+          "retry.was_capped": false,
+          "retry.jitter_ms": 0,
+          "error.type": "TypeError"
+        }
+      },
+      {
+        name: "retry",
+        attributes: {
+          "retry.operation": "users.fetch",
+          "retry.attempt": 2,
+          "retry.delay_ms": 150,
+          "retry.was_capped": true,
+          "retry.jitter_ms": 0,
+          "error.type": "string"
+        }
+      }
+    ]);
+  });
+
+  it("should record attempt, delay and outcome metrics for a successful operation", async () => {
+    const { meter, measurements } = createTelemetry();
+    let calls = 0;
+
+    await retryAsync(() => (++calls < 3 ? Promise.reject(new Error("boom")) : Promise.resolve()), {
+      baseDelayMs: 1,
+      jitterFactor: 0,
+      onEvent: createRetryInstrumentation({
+        operation: "orders.create",
+        meter,
+        attributes: { service: "checkout" }
+      })
+    });
+
+    const attributes = { service: "checkout", "retry.operation": "orders.create" };
+
+    expect(measurements).toEqual([
+      { name: "retry.attempts", value: 1, attributes },
+      { name: "retry.delay", value: 1, attributes },
+      { name: "retry.attempts", value: 1, attributes },
+      { name: "retry.delay", value: 2, attributes },
+      { name: "retry.attempts", value: 1, attributes },
+      {
+        name: "retry.attempts_per_operation",
+        value: 3,
+        attributes: { ...attributes, "retry.outcome": "success" }
+      }
+    ]);
+  });
+
+  it("should count retry loops that gave up", () => {
+    const { meter, measurements } = createTelemetry();
+    const record = createRetryInstrumentation({ operation: "jobs.run", meter });
+    const event: RetryEvent = {
+      type: "gave-up",
+      attempt: 4,
+      timestamp: 0,
+      error: new RangeError("limit"),
+      reason: "exhausted"
+    };
+
+    record(event);
+
+    expect(measurements).toEqual([
+      {
+        name: "retry.exhausted",
+        value: 1,
+        attributes: {
+          "retry.operation": "jobs.run",
+          "retry.reason": "exhausted",
+          "error.type": "RangeError"
+        }
+      },
+      {
+        name: "retry.attempts_per_operation",
+        value: 4,
+        attributes: { "retry.operation": "jobs.run", "retry.outcome": "gave-up" }
+      }
+    ]);
+  });
+
+  it("should do nothing without a tracer, meter or active span", () => {
+    const withoutSpan = createRetryInstrumentation({
+      operation: "noop",
+      tracer: { getActiveSpan: () => undefined }
+    });
+    const manager = new RetryManager({ onEvent: withoutSpan });
+
+    expect(() => manager.scheduleNextRetry()).not.toThrow();
+    expect(() =>
+      createRetryInstrumentation({ operation: "noop" })({
+        type: "cancelled",
+        attempt: 1,
+        timestamp: 0
+      })
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * OpenTelemetry-compatible instrumentation for retry lifecycle events.
+ *
+ * Without instrumentation, a backoff wait shows up in a trace as unexplained
+ * latency. This module turns retry lifecycle events into span events and
+ * metrics. It depends only on the small tracer and meter interfaces below,
+ * which the OpenTelemetry API satisfies structurally, so the library itself
+ * never imports `@opentelemetry/api` and tests can pass in-memory stand-ins.
+ */
+
+import type { RetryEvent } from "./exponential-backoff-events";
+
+/**
+ * Attribute values accepted by spans and metrics.
+ */
+export type RetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The part of an OpenTelemetry `Span` used for retry events.
+ */
+export interface RetrySpan {
+  addEvent(name: string, attributes?: RetryAttributes): unknown;
+}
+
+/**
+ * Finds the span that retry events are recorded on.
+ *
+ * The OpenTelemetry `trace` API object satisfies this interface, so
+ * `tracer: trace` records on whichever span is active when the retry happens.
+ */
+export interface RetryTracer {
+  getActiveSpan(): RetrySpan | undefined;
+}
+
+/**
+ * The part of an OpenTelemetry `Counter` used for retry metrics.
+ */
+export interface RetryCounter {
+  add(value: number, attributes?: RetryAttributes): void;
+}
+
+/**
+ * The part of an OpenTelemetry `Histogram` used for retry metrics.
+ */
+export interface RetryHistogram {
+  record(value: number, attributes?: RetryAttributes): void;
+}
+
+/**
+ * The part of an OpenTelemetry `Meter` used for retry metrics.
+ */
+export interface RetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): RetryCounter;
+  createHistogram(name: string, options?: { description?: string; unit?: string }): RetryHistogram;
+}
+
+/**
+ * Configuration options for {@link createRetryInstrumentation}.
+ */
+export interface RetryInstrumentationOptions {
+  /**
+   * The name of the operation being retried, recorded as the
+   * `retry.operation` attribute on every span event and metric.
+   */
+  operation: string;
+
+  /**
+   * Finds the active span for span events, typically the OpenTelemetry
+   * `trace` API object.
+   *
+   * @defaultValue No span events are recorded
+   */
+  tracer?: RetryTracer;
+
+  /**
+   * Creates the retry counters and histograms, typically
+   * `metrics.getMeter("my-service")`.
+   *
+   * @defaultValue No metrics are recorded
+   */
+  meter?: RetryMeter;
+
+  /**
+   * Extra attributes added to every span event and metric.
+   *
+   * @defaultValue {}
+   */
+  attributes?: RetryAttributes;
+}
+
+/**
+ * Returns the value recorded as the `error.type` attribute.
+ */
+const errorType = (error: unknown): string => (error instanceof Error ? error.name : typeof error);
+
+/**
+ * Creates a retry event handler that records span events and metrics.
+ *
+ * The handler can be passed as `onEvent` to any retry helper, or subscribed
+ * to an `events$` stream. It records:
+ *
+ * - a `retry` span event per scheduled retry, with `retry.attempt`,
+ *   `retry.delay_ms`, `retry.was_capped`, `retry.jitter_ms` and `error.type`
+ * - `retry.attempts`: a counter of attempts started
+ * - `retry.delay`: a histogram of backoff delays in milliseconds
+ * - `retry.exhausted`: a counter of retry loops that gave up, by `retry.reason`
+ * - `retry.attempts_per_operation`: a histogram of how many attempts each
+ *   operation took, by `retry.outcome` (`success` or `gave-up`)
+ *
+ * @param options - The operation name and the injected tracer and meter
+ * @returns A handler for retry lifecycle events
+ *
+ * @example
+ * ```typescript
+ * import { metrics, trace } from "@opentelemetry/api";
+ *
+ * const user = await retryAsync(fetchUser, {
+ *   maxAttempts: 5,
+ *   onEvent: createRetryInstrumentation({
+ *     operation: "users.fetch",
+ *     tracer: trace,
+ *     meter: metrics.getMeter("user-service")
+ *   })
+ * });
+ * ```
+ */
+export const createRetryInstrumentation = ({
+  operation,
+  tracer,
+  meter,
+  attributes = {}
+}: RetryInstrumentationOptions): ((event: RetryEvent) => void) => {
+  const baseAttributes: RetryAttributes = { ...attributes, "retry.operation": operation };
+
+  const attempts = meter?.createCounter("retry.attempts", {
+    description: "Attempts started, including the initial call"
+  });
+  const delays = meter?.createHistogram("retry.delay", {
+    description: "Backoff delay before each retry",
+    unit: "ms"
+  });
+  const exhausted = meter?.createCounter("retry.exhausted", {
+    description: "Retry loops that gave up"
+  });
+  const attemptsPerOperation = meter?.createHistogram("retry.attempts_per_operation", {
+    description: "Attempts made before an operation succeeded or gave up"
+  });
+
+  return (event) => {
+    switch (event.type) {
+      case "attempt-started":
+        attempts?.add(1, baseAttributes);
+        break;
+      case "retry-scheduled": {
+        const { backoff } = event;
+
+        delays?.record(backoff.delayMs, baseAttributes);
+        tracer?.getActiveSpan()?.addEvent("retry", {
+          ...baseAttributes,
+          "retry.attempt": event.attempt,
+          "retry.delay_ms": backoff.delayMs,
+          "retry.was_capped": backoff.wasCapped,
+          "retry.jitter_ms": backoff.jitterOffsetMs,
+          "error.type": errorType(event.error)
+        });
+        break;
+      }
+      case "retry-succeeded":
+        attemptsPerOperation?.record(event.attempt, {
+          ...baseAttributes,
+          "retry.outcome": "success"
+        });
+        break;
+      case "gave-up":
+        exhausted?.add(1, {
+          ...baseAttributes,
+          "retry.reason": event.reason,
+          "error.type": errorType(event.error)
+        });
+        attemptsPerOperation?.record(event.attempt, {
+          ...baseAttributes,
+          "retry.outcome": "gave-up"
+        });
+        break;
+      default:
+        break;
+    }
+  };
+};
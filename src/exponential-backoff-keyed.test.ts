@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { KeyedRetryManager } from "./exponential-backoff-keyed";
+
+describe("KeyedRetryManager", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should share one manager per key and back off keys independently", () => {
+    const keyed = new KeyedRetryManager({ baseDelayMs: 100, jitterFactor: 0 });
+    const failing = keyed.get("a.example.com");
+
+    expect(keyed.get("a.example.com")).toBe(failing);
+    expect(keyed.get("b.example.com")).not.toBe(failing);
+
+    failing.scheduleNextRetry();
+    failing.scheduleNextRetry();
+
+    expect(keyed.get("a.example.com").previewNextDelay().delayMs).toBe(400);
+    expect(keyed.get("b.example.com").previewNextDelay().delayMs).toBe(100);
+  });
+
+  it("should report which keys are backing off and until when", () => {
+    const events: string[] = [];
+    const keyed = new KeyedRetryManager({
+      baseDelayMs: 100,
+      jitterFactor: 0,
+      onEvent: (event, key) => events.push(`${key}:${event.type}`)
+    });
+
+    keyed.get("idle");
+    vi.setSystemTime(1000);
+    keyed.get("busy").scheduleNextRetry();
+    keyed.get("busy").scheduleNextRetry();
+
+    expect(keyed.snapshot()).toEqual([
+      { key: "idle", attemptCount: 0, lastUsedAt: 0, backingOffUntil: undefined },
+      { key: "busy", attemptCount: 2, lastUsedAt: 1000, backingOffUntil: 1200 }
+    ]);
+    expect(events).toEqual(["busy:retry-scheduled", "busy:retry-scheduled"]);
+
+    vi.setSystemTime(1200);
+    expect(keyed.snapshot()[1]).toMatchObject({ key: "busy", backingOffUntil: undefined });
+
+    keyed.get("busy").scheduleNextRetry();
+    keyed.reset("busy");
+    expect(keyed.snapshot()[1]).toMatchObject({ attemptCount: 0, backingOffUntil: undefined });
+  });
+
+  it("should evict the least recently used key when full", () => {
+    const keyed = new KeyedRetryManager({ maxKeys: 2 });
+
+    keyed.get("a");
+    keyed.get("b");
+    keyed.get("a");
+    keyed.get("c");
+
+    expect(keyed.has("a")).toBe(true);
+    expect(keyed.has("b")).toBe(false);
+    expect(keyed.has("c")).toBe(true);
+    expect(keyed.size).toBe(2);
+  });
+
+  it("should not evict keys that are backing off", () => {
+    const keyed = new KeyedRetryManager({ maxKeys: 2, baseDelayMs: 1000, jitterFactor: 0 });
+    const waiting = keyed.get("waiting");
+
+    waiting.scheduleNextRetry();
+    keyed.get("idle");
+    keyed.get("new");
+
+    expect(keyed.get("waiting")).toBe(waiting);
+    expect(keyed.has("idle")).toBe(false);
+    expect(keyed.size).toBe(2);
+
+    keyed.get("another");
+    expect(keyed.get("waiting")).toBe(waiting);
+    expect(keyed.size).toBe(2);
+  });
+
+  it("should expire idle keys, but not while they are backing off", () => {
+    const keyed = new KeyedRetryManager({ idleTtlMs: 1000, baseDelayMs: 5000, jitterFactor: 0 });
+    const waiting = keyed.get("waiting");
+
+    waiting.scheduleNextRetry();
+    keyed.get("idle");
+
+    vi.setSystemTime(1000);
+    expect(keyed.has("idle")).toBe(false);
+    expect(keyed.has("waiting")).toBe(true);
+    expect(keyed.prune()).toBe(1);
+
+    vi.setSystemTime(6000);
+    expect(keyed.size).toBe(0);
+    expect(keyed.get("waiting")).not.toBe(waiting);
+    expect(keyed.get("waiting").attemptCount).toBe(0);
+  });
+
+  it("should drop keys on request", () => {
+    const keyed = new KeyedRetryManager();
+
+    keyed.get("a");
+    keyed.get("b");
+
+    expect(keyed.delete("a")).toBe(true);
+    expect(keyed.delete("a")).toBe(false);
+
+    keyed.clear();
+    expect(keyed.snapshot()).toEqual([]);
+  });
+});
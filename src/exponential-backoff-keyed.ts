@@ -0,0 +1,327 @@
+/**
+ * Backoff state per key.
+ *
+ * A RetryManager keeps a single attempt count, so a client that shares one
+ * manager between all of its upstream hosts backs off everywhere when one host
+ * fails. KeyedRetryManager keeps a RetryManager per key (a host, a tenant, a
+ * queue name), created on first use and shared by every caller using that key.
+ * Entries that sit idle expire, and the number of keys is bounded, so memory
+ * stays flat however many keys pass through.
+ *
+ * @example
+ * ```typescript
+ * const hosts = new KeyedRetryManager({ maxAttempts: 5, maxKeys: 500, idleTtlMs: 60000 });
+ *
+ * const manager = hosts.get(new URL(url).host);
+ * while (manager.canRetry()) {
+ *   try {
+ *     const response = await send(url);
+ *     manager.reset();
+ *     return response;
+ *   } catch (error) {
+ *     await manager.waitForNextRetry({ error });
+ *   }
+ * }
+ * ```
+ */
+
+import { RetryManager, type RetryManagerOptions } from "./exponential-backoff";
+import type { RetryEvent } from "./exponential-backoff-events";
+
+/**
+ * Configuration options for {@link KeyedRetryManager}.
+ *
+ * Accepts every RetryManager option, applied to the manager of each key.
+ */
+export interface KeyedRetryManagerOptions extends Omit<RetryManagerOptions, "onEvent"> {
+  /**
+   * Called synchronously for every retry lifecycle event of every key.
+   *
+   * @param event - The event
+   * @param key - The key whose manager published the event
+   */
+  onEvent?: ((event: RetryEvent, key: string) => void) | undefined;
+
+  /**
+   * The maximum number of keys to keep. Creating a manager for one more key
+   * evicts the least recently used one that is not backing off. Keys that are
+   * backing off are never evicted, so the bound can be exceeded while more
+   * keys than this wait at the same time.
+   *
+   * @defaultValue 1000
+   */
+  maxKeys?: number;
+
+  /**
+   * How long in milliseconds a key may go unused before its state is
+   * dropped. A key is in use while it is backing off, so the idle time only
+   * starts once its wait is over.
+   *
+   * @defaultValue 300000 (5 minutes)
+   */
+  idleTtlMs?: number;
+}
+
+/**
+ * The backoff state of one key, as reported by {@link KeyedRetryManager.snapshot}.
+ */
+export interface KeyedRetryState {
+  /**
+   * The key.
+   */
+  key: string;
+
+  /**
+   * The number of retries made since the key's manager was created or reset.
+   */
+  attemptCount: number;
+
+  /**
+   * When the key was last used, in epoch milliseconds.
+   */
+  lastUsedAt: number;
+
+  /**
+   * When the key's current wait ends, in epoch milliseconds, or undefined
+   * when the key is not backing off.
+   */
+  backingOffUntil: number | undefined;
+}
+
+/**
+ * The tracked state of one key.
+ */
+interface KeyedEntry {
+  key: string;
+  manager: RetryManager;
+  lastUsedAt: number;
+  backingOffUntil: number | undefined;
+}
+
+/**
+ * A set of RetryManagers, one per key, with LRU and idle-time eviction.
+ *
+ * Managers are created lazily by {@link get}; callers that pass the same key
+ * share the same manager, and so the same attempt count and backoff. Evicted
+ * keys start from scratch the next time they are used.
+ *
+ * @example
+ * ```typescript
+ * const tenants = new KeyedRetryManager({ baseDelayMs: 500, maxDelayMs: 30000 });
+ *
+ * await tenants.get(tenantId).waitForNextRetry({ error });
+ *
+ * const backingOff = tenants.snapshot().filter(({ backingOffUntil }) => backingOffUntil);
+ * ```
+ */
+export class KeyedRetryManager {
+  private readonly _entries = new Map<string, KeyedEntry>();
+  private readonly _managerOptions: RetryManagerOptions;
+  private readonly _onEvent: ((event: RetryEvent, key: string) => void) | undefined;
+  private readonly _maxKeys: number;
+  private readonly _idleTtlMs: number;
+
+  /**
+   * Creates an empty keyed retry manager.
+   *
+   * @param options - The RetryManager options for every key, and the bounds
+   *                  on the number and idle time of keys
+   */
+  constructor(options: KeyedRetryManagerOptions = {}) {
+    const { maxKeys = 1000, idleTtlMs = 300000, onEvent, ...managerOptions } = options;
+
+    this._managerOptions = managerOptions;
+    this._onEvent = onEvent;
+    this._maxKeys = Math.max(1, maxKeys);
+    this._idleTtlMs = idleTtlMs;
+  }
+
+  /**
+   * Gets the number of keys currently tracked, after dropping idle ones.
+   */
+  public get size(): number {
+    this.dropExpired(Date.now());
+    return this._entries.size;
+  }
+
+  /**
+   * Gets the manager for a key, creating it on first use or after the key
+   * was evicted.
+   *
+   * @param key - The key, such as a host name or tenant id
+   * @returns The manager shared by every caller of the key
+   *
+   * @throws {BackoffConfigError} In strict mode, when the options are invalid
+   */
+  public get(key: string): RetryManager {
+    const now = Date.now();
+    const existing = this._entries.get(key);
+
+    // Re-inserting keeps the map ordered from least to most recently used
+    this._entries.delete(key);
+
+    if (existing && !this.isExpired(existing, now)) {
+      existing.lastUsedAt = now;
+      this._entries.set(key, existing);
+      return existing.manager;
+    }
+
+    this.dropExpired(now);
+    this.evictLeastRecentlyUsed(now);
+
+    const entry = this.createEntry(key, now);
+    this._entries.set(key, entry);
+    return entry.manager;
+  }
+
+  /**
+   * Checks whether a key has state that has not expired. Does not count as a
+   * use of the key.
+   *
+   * @param key - The key
+   */
+  public has(key: string): boolean {
+    const entry = this._entries.get(key);
+    return entry !== undefined && !this.isExpired(entry, Date.now());
+  }
+
+  /**
+   * Resets the backoff of a key after a success, without dropping it.
+   *
+   * @param key - The key
+   */
+  public reset(key: string): void {
+    const entry = this._entries.get(key);
+
+    if (entry) {
+      entry.manager.reset();
+      entry.backingOffUntil = undefined;
+    }
+  }
+
+  /**
+   * Drops the state of a key.
+   *
+   * @param key - The key
+   * @returns true if the key was tracked
+   */
+  public delete(key: string): boolean {
+    return this._entries.delete(key);
+  }
+
+  /**
+   * Drops the state of every key.
+   */
+  public clear(): void {
+    this._entries.clear();
+  }
+
+  /**
+   * Drops every key that has been idle for longer than `idleTtlMs`.
+   *
+   * Idle keys are also dropped as new keys are created, so calling this is
+   * only needed to release memory sooner.
+   *
+   * @returns The number of keys dropped
+   */
+  public prune(): number {
+    return this.dropExpired(Date.now());
+  }
+
+  /**
+   * Captures the state of every tracked key, from least to most recently
+   * used. Keys whose wait is over are reported with `backingOffUntil` unset.
+   *
+   * @returns The state of each key
+   */
+  public snapshot(): KeyedRetryState[] {
+    const now = Date.now();
+    this.dropExpired(now);
+
+    return [...this._entries.values()].map((entry) => ({
+      key: entry.key,
+      attemptCount: entry.manager.attemptCount,
+      lastUsedAt: entry.lastUsedAt,
+      backingOffUntil: this.isBackingOff(entry, now) ? entry.backingOffUntil : undefined
+    }));
+  }
+
+  /**
+   * Drops the expired entries.
+   */
+  private dropExpired(now: number): number {
+    let pruned = 0;
+
+    for (const [key, entry] of this._entries) {
+      if (this.isExpired(entry, now)) {
+        this._entries.delete(key);
+        pruned++;
+      }
+    }
+
+    return pruned;
+  }
+
+  /**
+   * Evicts the least recently used keys until there is room for one more,
+   * skipping keys that are backing off so their backoff is not lost.
+   */
+  private evictLeastRecentlyUsed(now: number): void {
+    for (const [key, entry] of this._entries) {
+      if (this._entries.size < this._maxKeys) {
+        return;
+      }
+
+      if (!this.isBackingOff(entry, now)) {
+        this._entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Creates the manager of a new key, tracking its waits through its events.
+   */
+  private createEntry(key: string, now: number): KeyedEntry {
+    const entry: KeyedEntry = {
+      key,
+      manager: new RetryManager({
+        ...this._managerOptions,
+        onEvent: (event) => this.track(entry, event)
+      }),
+      lastUsedAt: now,
+      backingOffUntil: undefined
+    };
+
+    return entry;
+  }
+
+  /**
+   * Records the use and waits of a key from its manager's events.
+   */
+  private track(entry: KeyedEntry, event: RetryEvent): void {
+    entry.lastUsedAt = event.timestamp;
+
+    if (event.type === "retry-scheduled") {
+      entry.backingOffUntil = event.timestamp + event.backoff.delayMs;
+    } else if (event.type === "cancelled") {
+      entry.backingOffUntil = undefined;
+    }
+
+    this._onEvent?.(event, entry.key);
+  }
+
+  /**
+   * Checks whether a key's current wait has not ended yet.
+   */
+  private isBackingOff(entry: KeyedEntry, now: number): boolean {
+    return entry.backingOffUntil !== undefined && entry.backingOffUntil > now;
+  }
+
+  /**
+   * Decides whether an entry has been idle for too long. A key that is
+   * backing off is in use until its wait ends.
+   */
+  private isExpired(entry: KeyedEntry, now: number): boolean {
+    return Math.max(entry.lastUsedAt, entry.backingOffUntil ?? 0) + this._idleTtlMs <= now;
+  }
+}
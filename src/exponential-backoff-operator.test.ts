@@ -0,0 +1,204 @@
+import { concat, defer, lastValueFrom, NEVER, of, throwError } from "rxjs";
+import { describe, expect, it, vi } from "vitest";
+import type { BackoffResult } from "./exponential-backoff";
+import { AttemptTimeoutError, RetryExhaustedError } from "./exponential-backoff-errors";
+import { retryWithBackoff } from "./exponential-backoff-operator";
+import { createTestScheduler } from "./test-helpers";
+
+/**
+ * Creates a source that fails `failures` times before emitting "success".
+ */
+const failingSource = (failures: number, error: unknown = new Error("failed")) => {
+  let subscriptions = 0;
+
+  const source = defer(() => {
+    subscriptions++;
+    return subscriptions <= failures ? throwError(() => error) : of("success");
+  });
+
+  return { source, subscriptions: () => subscriptions };
+};
+
+describe("retryWithBackoff", () => {
+  it("should retry until the source succeeds", async () => {
+    const { source, subscriptions } = failingSource(2);
+
+    const result = await lastValueFrom(
+      source.pipe(retryWithBackoff({ baseDelayMs: 1, jitterFactor: 0 }))
+    );
+
+    expect(result).toBe("success");
+    expect(subscriptions()).toBe(3);
+  });
+
+  it("should give up after maxRetries", async () => {
+    const { source, subscriptions } = failingSource(10);
+    const onGiveUp = vi.fn();
+
+    await expect(
+      lastValueFrom(
+        source.pipe(retryWithBackoff({ baseDelayMs: 1, jitterFactor: 0, maxRetries: 2, onGiveUp }))
+      )
+    ).rejects.toThrow("failed");
+
+    expect(subscriptions()).toBe(3);
+    expect(onGiveUp).toHaveBeenCalledWith(expect.any(Error), 3);
+  });
+
+  it("should give up with RetryExhaustedError when a retry limit is reached", async () => {
+    const { source, subscriptions } = failingSource(10);
+    const onGiveUp = vi.fn();
+
+    await expect(
+      lastValueFrom(
+        source.pipe(
+          retryWithBackoff({ baseDelayMs: 5, jitterFactor: 0, maxTotalDelayMs: 12, onGiveUp })
+        )
+      )
+    ).rejects.toBeInstanceOf(RetryExhaustedError);
+
+    expect(subscriptions()).toBe(2);
+    expect(onGiveUp).toHaveBeenCalledWith(expect.any(Error), 2);
+  });
+
+  it("should not retry errors rejected by shouldRetry", async () => {
+    const { source, subscriptions } = failingSource(10, { status: 404 });
+    const shouldRetry = vi.fn((error: { status: number }) => error.status >= 500);
+    const onGiveUp = vi.fn();
+
+    await expect(
+      lastValueFrom(source.pipe(retryWithBackoff({ baseDelayMs: 1, shouldRetry, onGiveUp })))
+    ).rejects.toEqual({ status: 404 });
+
+    expect(subscriptions()).toBe(1);
+    expect(shouldRetry).toHaveBeenCalledWith({ status: 404 }, 1);
+    expect(onGiveUp).toHaveBeenCalledWith({ status: 404 }, 1);
+  });
+
+  it("should report each scheduled retry with its backoff result", async () => {
+    const { source } = failingSource(3);
+    const results: BackoffResult[] = [];
+
+    await lastValueFrom(
+      source.pipe(
+        retryWithBackoff({
+          baseDelayMs: 2,
+          jitterFactor: 0,
+          onRetry: (_error, _attempt, result) => results.push(result)
+        })
+      )
+    );
+
+    expect(results.map((result) => [result.retryAttempt, result.delayMs])).toEqual([
+      [1, 2],
+      [2, 4],
+      [3, 8]
+    ]);
+  });
+
+  it("should reset the attempt counter after a successful emission", async () => {
+    let subscriptions = 0;
+    // Emit a value and then drop the connection, until the fifth subscription
+    const source = defer(() => {
+      subscriptions++;
+      return subscriptions < 5
+        ? concat(
+            of(subscriptions),
+            throwError(() => new Error("connection dropped"))
+          )
+        : of(subscriptions);
+    });
+    const attempts: number[] = [];
+
+    await lastValueFrom(
+      source.pipe(
+        retryWithBackoff({
+          baseDelayMs: 1,
+          jitterFactor: 0,
+          maxRetries: 1,
+          resetOnSuccess: true,
+          onRetry: (_error, attempt) => attempts.push(attempt)
+        })
+      )
+    );
+
+    expect(attempts).toEqual([1, 1, 1, 1]);
+  });
+
+  it("should keep backoff state separate per subscription", async () => {
+    const delays: number[] = [];
+    const operator = retryWithBackoff<string>({
+      baseDelayMs: 1,
+      jitterMode: "decorrelated",
+      random: () => 0.5,
+      onRetry: (_error, _attempt, result) => delays.push(result.delayMs)
+    });
+
+    await Promise.all([
+      lastValueFrom(failingSource(2).source.pipe(operator)),
+      lastValueFrom(failingSource(2).source.pipe(operator))
+    ]);
+
+    // random(1, 1 * 3) then random(1, 2 * 3) for each subscription independently
+    expect(delays.sort()).toEqual([2, 2, 3.5, 3.5]);
+  });
+
+  describe("attemptTimeoutMs", () => {
+    it("should time out hung attempts and retry them", () => {
+      createTestScheduler().run(({ cold, expectObservable }) => {
+        let subscriptions = 0;
+        const source = defer(() => (++subscriptions === 1 ? NEVER : cold("(a|)")));
+
+        expectObservable(
+          source.pipe(retryWithBackoff({ baseDelayMs: 10, jitterFactor: 0, attemptTimeoutMs: 100 }))
+        ).toBe("110ms (a|)");
+      });
+    });
+
+    it("should grow the timeout and fail with AttemptTimeoutError", () => {
+      const timeouts: number[] = [];
+
+      createTestScheduler().run(({ expectObservable }) => {
+        expectObservable(
+          NEVER.pipe(
+            retryWithBackoff({
+              baseDelayMs: 10,
+              jitterFactor: 0,
+              maxRetries: 2,
+              attemptTimeoutMs: { initialMs: 100 },
+              onRetry: (error: AttemptTimeoutError) => timeouts.push(error.timeoutMs)
+            })
+          )
+        ).toBe("730ms #", undefined, new AttemptTimeoutError(400, 3));
+      });
+
+      // 100 + 10 + 200 + 20 + 400
+      expect(timeouts).toEqual([100, 200]);
+    });
+
+    it("should cut the last timeout short at the deadline", () => {
+      createTestScheduler().run(({ expectObservable }) => {
+        expectObservable(
+          NEVER.pipe(
+            retryWithBackoff({
+              baseDelayMs: 10,
+              jitterFactor: 0,
+              maxElapsedMs: 60,
+              attemptTimeoutMs: 100
+            })
+          )
+        ).toBe(
+          // The deadline starts with the first retry at 100ms, so attempt 2
+          // (from 110ms) only gets 50ms before the retry loop gives up
+          "160ms #",
+          undefined,
+          new RetryExhaustedError(
+            "maxElapsedMs",
+            { attempts: 1, elapsedMs: 60, totalDelayMs: 10 },
+            { cause: new AttemptTimeoutError(50, 2) }
+          )
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * RxJS retry operator with exponential backoff.
+ *
+ * This module packages the `retry({ count, delay: createBackoffDelayFunction() })`
+ * pattern, plus the predicate and callback plumbing that usually surrounds it,
+ * into a single pipeable operator.
+ */
+
+import { defer, type MonoTypeOperatorFunction, retry, tap, throwError, timeout, timer } from "rxjs";
+import type { BackoffResult } from "./exponential-backoff";
+import { isRetryableError } from "./exponential-backoff-classifiers";
+import { AttemptTimeoutError } from "./exponential-backoff-errors";
+import { resolveAttemptTimeoutMs, type AttemptTimeout } from "./exponential-backoff-timeout";
+import { BackoffTimerFactory, type BackoffTimerOptions } from "./exponential-backoff-timer";
+
+/**
+ * Configuration options for the {@link retryWithBackoff} operator.
+ *
+ * Accepts every backoff timer option, plus the retry policy and callbacks.
+ */
+export interface RetryWithBackoffOptions<E = unknown> extends BackoffTimerOptions {
+  /**
+   * The maximum number of retries before the error is re-thrown.
+   *
+   * Matches the `count` option of the RxJS `retry` operator: a value of 3
+   * allows the source to be subscribed to at most 4 times.
+   *
+   * @defaultValue Infinity
+   */
+  maxRetries?: number;
+
+  /**
+   * Decides whether an error should be retried.
+   *
+   * Returning false re-throws the error immediately without waiting, which is
+   * how non-transient failures (such as HTTP 4xx responses) should be handled.
+   * Takes precedence over `classifier`.
+   *
+   * @param error - The error emitted by the source
+   * @param attempt - The retry attempt this error would trigger (1-based)
+   * @returns true to retry the error
+   *
+   * @defaultValue Ask the `classifier`, retrying every error without one
+   */
+  shouldRetry?: (error: E, attempt: number) => boolean;
+
+  /**
+   * Whether the retry counter should reset once the source emits a value.
+   *
+   * Useful for long-lived streams, where an error after hours of healthy
+   * emissions should start again from the base delay.
+   *
+   * @defaultValue false
+   */
+  resetOnSuccess?: boolean;
+
+  /**
+   * Called when a retry has been scheduled, before the delay starts.
+   *
+   * @param error - The error that triggered the retry
+   * @param attempt - The retry attempt number (1-based)
+   * @param result - The calculated backoff for this retry
+   */
+  onRetry?: (error: E, attempt: number, result: BackoffResult) => void;
+
+  /**
+   * Called when the operator stops retrying, either because `maxRetries` was
+   * reached or `shouldRetry` returned false (the error is re-thrown), or
+   * because a retry limit such as `maxElapsedMs` was reached or the retry
+   * budget was used up (a RetryExhaustedError or RetryBudgetExhaustedError is
+   * thrown instead).
+   *
+   * @param error - The error that is being re-thrown
+   * @param attempt - The retry attempt that was refused (1-based)
+   */
+  onGiveUp?: (error: E, attempt: number) => void;
+
+  /**
+   * The time in milliseconds an attempt may take to emit its first value,
+   * either fixed or growing from attempt to attempt along an
+   * `AttemptTimeoutCurve`.
+   *
+   * A hung attempt never errors, so without a timeout it is never retried.
+   * A timed-out attempt is unsubscribed and fails with an AttemptTimeoutError,
+   * which is retried like any other retryable error. With `maxElapsedMs` set,
+   * the timeout is cut short so the last attempt ends by the deadline, which
+   * like the other retry limits is measured from the first retry.
+   *
+   * @defaultValue No timeout
+   */
+  attemptTimeoutMs?: AttemptTimeout;
+}
+
+/**
+ * Retries the source observable with exponential backoff between attempts.
+ *
+ * Each subscription gets its own backoff state, so the operator can be
+ * defined once and shared between many streams.
+ *
+ * The full retry lifecycle is reported through `onEvent` and `logger`:
+ * `attempt-started` on every (re)subscription, `retry-succeeded` on an
+ * attempt's first value (or completion without values), `attempt-failed`,
+ * `retry-scheduled` and `gave-up` on errors, and `cancelled` when the
+ * subscriber unsubscribes before the stream finishes.
+ *
+ * @param options - Backoff configuration, retry policy and callbacks
+ * @returns An operator that resubscribes to the source on error
+ *
+ * @example
+ * ```typescript
+ * return this.http.get('/api/data').pipe(
+ *   retryWithBackoff({
+ *     baseDelayMs: 500,
+ *     maxDelayMs: 10000,
+ *     maxRetries: 5,
+ *     shouldRetry: (error: HttpRequestError) => error.status >= 500 || error.status === 429,
+ *     onRetry: (error, attempt, result) => console.warn(`retrying: ${result}`),
+ *     onGiveUp: (error) => console.error("giving up", error)
+ *   })
+ * );
+ * ```
+ */
+export function retryWithBackoff<T, E = unknown>(
+  options: RetryWithBackoffOptions<E> = {}
+): MonoTypeOperatorFunction<T> {
+  const {
+    maxRetries = Infinity,
+    shouldRetry,
+    resetOnSuccess = false,
+    onRetry,
+    onGiveUp,
+    attemptTimeoutMs,
+    ...timerOptions
+  } = options;
+
+  return (source) =>
+    defer(() => {
+      const factory = new BackoffTimerFactory(timerOptions);
+      timerOptions.retryBudget?.recordRequest();
+      const { scheduler, maxElapsedMs } = factory.getOptions();
+      let attempt = 1;
+      let succeeded = false;
+
+      const timedSource = defer(() => {
+        const timedAttempt = attempt;
+        const timeoutMs = resolveAttemptTimeoutMs(
+          attemptTimeoutMs,
+          timedAttempt,
+          // The deadline only starts running with the first retry
+          timedAttempt === 1 ? Infinity : maxElapsedMs - factory.elapsedMs
+        );
+
+        return timeoutMs === undefined
+          ? source
+          : source.pipe(
+              timeout({
+                first: timeoutMs,
+                with: () => throwError(() => new AttemptTimeoutError(timeoutMs, timedAttempt)),
+                scheduler
+              })
+            );
+      });
+
+      const attempts = timedSource.pipe(
+        tap({
+          subscribe: () => {
+            succeeded = false;
+            factory.emit({ type: "attempt-started", attempt });
+          },
+          next: () => {
+            if (!succeeded) {
+              succeeded = true;
+              factory.emit({ type: "retry-succeeded", attempt });
+            }
+
+            // retry() restarts its count on each value when resetOnSuccess is set
+            if (resetOnSuccess) {
+              attempt = 1;
+            }
+          },
+          complete: () => {
+            if (!succeeded) {
+              factory.emit({ type: "retry-succeeded", attempt });
+            }
+          }
+        })
+      );
+
+      return attempts.pipe(
+        retry({
+          resetOnSuccess,
+          delay: (error: E, retryCount) => {
+            factory.emit({ type: "attempt-failed", attempt: retryCount, error });
+
+            const retryable = shouldRetry
+              ? shouldRetry(error, retryCount)
+              : isRetryableError(error, timerOptions.classifier);
+
+            if (retryCount > maxRetries || !retryable) {
+              factory.emit({
+                type: "gave-up",
+                attempt: retryCount,
+                error,
+                reason: retryCount > maxRetries ? "exhausted" : "non-retryable"
+              });
+              onGiveUp?.(error, retryCount);
+              return throwError(() => error);
+            }
+
+            let backoffResult: BackoffResult;
+
+            try {
+              backoffResult = factory.calculate(retryCount, undefined, error);
+            } catch (exhausted: unknown) {
+              onGiveUp?.(error, retryCount);
+              return throwError(() => exhausted);
+            }
+
+            onRetry?.(error, retryCount, backoffResult);
+            attempt = retryCount + 1;
+
+            return timer(backoffResult.delayMs, scheduler);
+          }
+        }),
+        tap({ unsubscribe: () => factory.emit({ type: "cancelled", attempt }) })
+      );
+    });
+}
@@ -0,0 +1,142 @@
+import { firstValueFrom } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { RetryManager } from "./exponential-backoff";
+import { httpStatus } from "./exponential-backoff-classifiers";
+import { RetryExhaustedError } from "./exponential-backoff-errors";
+import {
+  BackoffPolicyTracker,
+  getPolicyBackoffOptions,
+  resolveBackoffPolicy,
+  type ErrorBackoffPolicy
+} from "./exponential-backoff-policies";
+import { BackoffTimerFactory, createBackoffDelayFunction } from "./exponential-backoff-timer";
+
+const rateLimited: ErrorBackoffPolicy = {
+  name: "rate-limited",
+  match: httpStatus(429),
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  maxAttempts: 2
+};
+const unavailable: ErrorBackoffPolicy = {
+  name: "unavailable",
+  match: httpStatus(503),
+  baseDelayMs: 1000
+};
+const policies = [rateLimited, unavailable];
+const options = { baseDelayMs: 100, maxDelayMs: 60000, jitterFactor: 0, policies };
+
+const tooManyRequests = { status: 429 };
+const serviceUnavailable = { status: 503 };
+const serverError = { status: 500 };
+
+describe("backoff policy helpers", () => {
+  it("should resolve the first matching policy", () => {
+    expect(resolveBackoffPolicy(policies, tooManyRequests)).toBe(rateLimited);
+    expect(resolveBackoffPolicy(policies, serviceUnavailable)).toBe(unavailable);
+    expect(resolveBackoffPolicy(policies, serverError)).toBeUndefined();
+    expect(resolveBackoffPolicy(policies, undefined)).toBeUndefined();
+  });
+
+  it("should split out the backoff options", () => {
+    expect(getPolicyBackoffOptions(rateLimited)).toEqual({ baseDelayMs: 2000, maxDelayMs: 30000 });
+  });
+
+  it("should count attempts per error class", () => {
+    const tracker = new BackoffPolicyTracker();
+
+    tracker.record(rateLimited, 2000);
+    tracker.record(rateLimited, 4000);
+
+    expect(tracker.attemptsFor(rateLimited, 3)).toBe(2);
+    expect(tracker.attemptsFor(unavailable, 3)).toBe(0);
+    expect(tracker.attemptsFor(undefined, 3)).toBe(1);
+    expect(tracker.previousDelayFor(rateLimited)).toBe(4000);
+
+    tracker.reset();
+    expect(tracker.attemptsFor(undefined, 3)).toBe(3);
+  });
+});
+
+describe("RetryManager policies", () => {
+  it("should back off each error class from its own options and attempt count", () => {
+    const manager = new RetryManager(options);
+
+    expect(manager.scheduleNextRetry(tooManyRequests).delayMs).toBe(2000);
+    expect(manager.scheduleNextRetry(tooManyRequests).delayMs).toBe(4000);
+    expect(manager.scheduleNextRetry(serviceUnavailable).delayMs).toBe(1000);
+    expect(manager.scheduleNextRetry(serverError).delayMs).toBe(100);
+    expect(manager.scheduleNextRetry(serviceUnavailable).delayMs).toBe(2000);
+    expect(manager.attemptCount).toBe(5);
+  });
+
+  it("should enforce a policy's attempt limit without affecting other classes", () => {
+    const manager = new RetryManager(options);
+
+    manager.scheduleNextRetry(tooManyRequests);
+    manager.scheduleNextRetry(tooManyRequests);
+
+    expect(() => manager.scheduleNextRetry(tooManyRequests)).toThrow(RetryExhaustedError);
+    expect(manager.scheduleNextRetry(serviceUnavailable).delayMs).toBe(1000);
+  });
+
+  it("should still enforce the manager's own limits across classes", () => {
+    const manager = new RetryManager({ ...options, maxAttempts: 2 });
+
+    manager.scheduleNextRetry(tooManyRequests);
+    manager.scheduleNextRetry(serviceUnavailable);
+
+    expect(() => manager.scheduleNextRetry(serverError)).toThrow(RetryExhaustedError);
+  });
+
+  it("should preview and reset per-class state", () => {
+    const manager = new RetryManager(options);
+
+    manager.scheduleNextRetry(tooManyRequests);
+
+    expect(manager.previewNextDelay(tooManyRequests).delayMs).toBe(4000);
+    expect(manager.previewNextDelay().delayMs).toBe(100);
+
+    manager.reset();
+    expect(manager.previewNextDelay(tooManyRequests).delayMs).toBe(2000);
+  });
+});
+
+describe("BackoffTimerFactory policies", () => {
+  it("should back off each error class within a retry sequence", () => {
+    const factory = new BackoffTimerFactory(options);
+
+    expect(factory.calculate(1, undefined, tooManyRequests).delayMs).toBe(2000);
+    expect(factory.calculate(2, undefined, serverError).delayMs).toBe(100);
+    expect(factory.calculate(3, undefined, tooManyRequests).delayMs).toBe(4000);
+    expect(factory.calculate(4, undefined, serverError).delayMs).toBe(200);
+    expect(() => factory.calculate(5, undefined, tooManyRequests)).toThrow(RetryExhaustedError);
+
+    // A new sequence starts every class again
+    expect(factory.calculate(1, undefined, tooManyRequests).delayMs).toBe(2000);
+  });
+
+  it("should count each error class per retry sequence", () => {
+    const factory = new BackoffTimerFactory(options);
+    const a = factory.startSequence();
+    const b = factory.startSequence();
+
+    expect(factory.calculate(1, undefined, tooManyRequests, a).delayMs).toBe(2000);
+    expect(factory.calculate(1, undefined, tooManyRequests, b).delayMs).toBe(2000);
+    expect(factory.calculate(2, undefined, tooManyRequests, a).delayMs).toBe(4000);
+    expect(factory.calculate(2, undefined, serverError, b).delayMs).toBe(100);
+    expect(factory.calculate(3, undefined, tooManyRequests, b).delayMs).toBe(4000);
+    expect(() => factory.calculate(3, undefined, tooManyRequests, a)).toThrow(RetryExhaustedError);
+  });
+
+  it("should resolve policies inside createBackoffDelayFunction", async () => {
+    const delay = createBackoffDelayFunction({
+      jitterFactor: 0,
+      emitDelay: true,
+      policies: [{ match: httpStatus(503), baseDelayMs: 5 }]
+    });
+
+    await expect(firstValueFrom(delay(serviceUnavailable, 1))).resolves.toBe(5);
+    await expect(firstValueFrom(delay(serverError, 2))).resolves.toBe(1000);
+  });
+});
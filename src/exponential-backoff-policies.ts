@@ -0,0 +1,162 @@
+/**
+ * Per-error-class backoff policies.
+ *
+ * Different failures deserve different waits: a 429 should back off slowly
+ * from a long base delay, while a 503 from a restarting instance can be retried
+ * sooner. A policy list maps error matchers to their own backoff options and
+ * attempt limit, and each error class keeps its own attempt count, so a storm
+ * of one kind of error cannot use up the retries reserved for another.
+ *
+ * @example
+ * ```typescript
+ * const policies: ErrorBackoffPolicy[] = [
+ *   { name: "rate-limited", match: httpStatus(429), baseDelayMs: 2000, maxDelayMs: 30000, maxAttempts: 10 },
+ *   { name: "unavailable", match: httpStatus(503), baseDelayMs: 1000, maxAttempts: 4 }
+ * ];
+ *
+ * new RetryManager({ baseDelayMs: 250, policies });
+ * retry({ delay: createBackoffDelayFunction({ baseDelayMs: 250, policies }) });
+ * ```
+ */
+
+import type { BackoffOptions } from "./exponential-backoff";
+import type { ErrorMatcher } from "./exponential-backoff-classifiers";
+
+/**
+ * The backoff policy for one class of errors.
+ *
+ * Backoff options left out of the policy fall back to the options of the
+ * helper it is passed to.
+ */
+export interface ErrorBackoffPolicy extends BackoffOptions {
+  /**
+   * A name for the error class, for logs and debugging.
+   */
+  name?: string;
+
+  /**
+   * Decides whether an error belongs to this class.
+   */
+  match: ErrorMatcher;
+
+  /**
+   * The maximum number of retries for errors of this class. The helper's
+   * own limits still apply to all retries together.
+   *
+   * @defaultValue Infinity
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * The retry state of one error class.
+ */
+interface PolicyState {
+  attempts: number;
+  previousDelayMs: number | undefined;
+}
+
+/**
+ * Splits a policy into its backoff options.
+ *
+ * @param policy - The policy to read
+ * @returns The backoff options set on the policy
+ */
+export const getPolicyBackoffOptions = ({
+  name: _name,
+  match: _match,
+  maxAttempts: _maxAttempts,
+  ...backoff
+}: ErrorBackoffPolicy): BackoffOptions => backoff;
+
+/**
+ * Finds the policy for an error.
+ *
+ * @param policies - The policies, in order; the first matching policy wins
+ * @param error - The error that triggered the retry
+ * @returns The matching policy, or undefined for the default class
+ */
+export const resolveBackoffPolicy = (
+  policies: readonly ErrorBackoffPolicy[],
+  error: unknown
+): ErrorBackoffPolicy | undefined =>
+  error === undefined ? undefined : policies.find((policy) => policy.match(error));
+
+/**
+ * Tracks how many retries each error class has made.
+ *
+ * Used by RetryManager and BackoffTimerFactory. Errors that match no policy
+ * belong to the default class, whose attempt count is whatever remains of
+ * the total once the policy classes are subtracted.
+ */
+export class BackoffPolicyTracker {
+  private readonly states = new Map<ErrorBackoffPolicy, PolicyState>();
+
+  /**
+   * Gets the number of retries already made for an error class.
+   *
+   * @param policy - The error class, or undefined for the default class
+   * @param totalAttempts - The retries made across all classes
+   * @returns The retries made for that class
+   */
+  public attemptsFor(policy: ErrorBackoffPolicy | undefined, totalAttempts: number): number {
+    if (policy) {
+      return this.states.get(policy)?.attempts ?? 0;
+    }
+
+    let policyAttempts = 0;
+
+    for (const state of this.states.values()) {
+      policyAttempts += state.attempts;
+    }
+
+    return Math.max(0, totalAttempts - policyAttempts);
+  }
+
+  /**
+   * Gets the delay of the previous retry made for a policy's error class.
+   *
+   * @param policy - The error class
+   * @returns The previous delay, or undefined before the first retry
+   */
+  public previousDelayFor(policy: ErrorBackoffPolicy): number | undefined {
+    return this.states.get(policy)?.previousDelayMs;
+  }
+
+  /**
+   * Records a retry scheduled for a policy's error class.
+   *
+   * @param policy - The error class
+   * @param delayMs - The delay scheduled for the retry
+   */
+  public record(policy: ErrorBackoffPolicy, delayMs: number): void {
+    const state = this.states.get(policy) ?? { attempts: 0, previousDelayMs: undefined };
+
+    state.attempts++;
+    state.previousDelayMs = delayMs;
+    this.states.set(policy, state);
+  }
+
+  /**
+   * Takes back the last retry recorded for a policy's error class, such as
+   * one whose wait was cancelled.
+   *
+   * @param policy - The error class
+   * @param previousDelayMs - The class's previous delay before that retry
+   */
+  public takeBack(policy: ErrorBackoffPolicy, previousDelayMs: number | undefined): void {
+    const state = this.states.get(policy);
+
+    if (state) {
+      state.attempts = Math.max(0, state.attempts - 1);
+      state.previousDelayMs = previousDelayMs;
+    }
+  }
+
+  /**
+   * Forgets every error class's retries.
+   */
+  public reset(): void {
+    this.states.clear();
+  }
+}
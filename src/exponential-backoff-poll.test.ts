@@ -0,0 +1,185 @@
+import { defer, lastValueFrom, of, toArray } from "rxjs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AbortError, PollExhaustedError } from "./exponential-backoff-errors";
+import {
+  pollAsync,
+  pollWithBackoff,
+  pollWithBackoffProgress,
+  type PollProgress
+} from "./exponential-backoff-poll";
+import { createTestScheduler } from "./test-helpers";
+
+interface Job {
+  status: "running" | "done";
+  progress: number;
+}
+
+const running = (progress: number): Job => ({ status: "running", progress });
+const done: Job = { status: "done", progress: 100 };
+const isDone = (job: Job) => job.status === "done";
+const progressChanged = (previous: Job, current: Job) => previous.progress !== current.progress;
+
+/**
+ * Creates a job-status source that reports the given jobs, one per poll.
+ */
+const jobSource = (jobs: Job[]) => {
+  let polls = 0;
+  return defer(() => of(jobs[Math.min(polls++, jobs.length - 1)] as Job));
+};
+
+describe("pollWithBackoff", () => {
+  it("should poll with growing delays until the value is final", () => {
+    const delays: number[] = [];
+    const jobs = [running(0), running(0), running(0), done];
+
+    createTestScheduler().run(({ expectObservable }) => {
+      expectObservable(
+        jobSource(jobs).pipe(
+          pollWithBackoff({
+            until: isDone,
+            baseDelayMs: 10,
+            jitterFactor: 0,
+            onProgress: ({ backoff }) => delays.push(backoff.delayMs)
+          })
+        )
+      ).toBe("a 9ms b 19ms c 39ms (d|)", { a: jobs[0], b: jobs[1], c: jobs[2], d: done });
+    });
+
+    expect(delays).toEqual([10, 20, 40]);
+  });
+
+  it("should start the backoff again when the value changes", () => {
+    const progress: PollProgress<Job>[] = [];
+    const jobs = [running(10), running(10), running(50), running(50), done];
+
+    createTestScheduler().run(({ expectObservable }) => {
+      expectObservable(
+        jobSource(jobs).pipe(
+          pollWithBackoff({
+            until: isDone,
+            resetWhen: progressChanged,
+            baseDelayMs: 10,
+            jitterFactor: 0,
+            onProgress: (update) => progress.push(update)
+          })
+        )
+      ).toBe("a 9ms b 19ms c 9ms d 19ms (e|)", {
+        a: jobs[0],
+        b: jobs[1],
+        c: jobs[2],
+        d: jobs[3],
+        e: done
+      });
+    });
+
+    expect(progress.map(({ poll, attempt, backoff }) => [poll, attempt, backoff.delayMs])).toEqual([
+      [1, 1, 10],
+      [2, 2, 20],
+      [3, 1, 10],
+      [4, 2, 20]
+    ]);
+    expect(progress[2]?.value).toBe(jobs[2]);
+  });
+
+  it("should give up after maxPolls", () => {
+    createTestScheduler().run(({ expectObservable }) => {
+      const job = running(0);
+
+      expectObservable(
+        jobSource([job]).pipe(
+          pollWithBackoff({ until: isDone, maxPolls: 2, baseDelayMs: 10, jitterFactor: 0 })
+        )
+      ).toBe("a 9ms (a#)", { a: job }, new PollExhaustedError(2, job));
+    });
+  });
+
+  it("should pass on errors without polling again", async () => {
+    const failure = new Error("boom");
+    let polls = 0;
+    const source = defer(() => {
+      polls++;
+      return Promise.reject(failure);
+    });
+
+    await expect(lastValueFrom(source.pipe(pollWithBackoff({ until: () => true })))).rejects.toBe(
+      failure
+    );
+    expect(polls).toBe(1);
+  });
+});
+
+describe("pollWithBackoffProgress", () => {
+  it("should emit the waits between the values", async () => {
+    const jobs = [running(0), running(0), done];
+    const onProgress = vi.fn();
+
+    const updates = await lastValueFrom(
+      jobSource(jobs).pipe(
+        pollWithBackoffProgress({ until: isDone, baseDelayMs: 1, jitterFactor: 0, onProgress }),
+        toArray()
+      )
+    );
+
+    expect(
+      updates.map((update) =>
+        update.type === "value" ? update.value.status : update.progress.backoff.delayMs
+      )
+    ).toEqual(["running", 1, "running", 2, "done"]);
+    expect(onProgress).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("pollAsync", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should poll until the value is final", async () => {
+    const jobs = [running(10), running(10), running(50), done];
+    const operation = vi.fn((poll: number) => Promise.resolve(jobs[poll - 1] as Job));
+    const delays: number[] = [];
+
+    const promise = pollAsync(operation, {
+      until: isDone,
+      resetWhen: progressChanged,
+      baseDelayMs: 100,
+      jitterFactor: 0,
+      onProgress: ({ backoff }) => delays.push(backoff.delayMs)
+    });
+
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe(done);
+    expect(operation).toHaveBeenCalledTimes(4);
+    expect(delays).toEqual([100, 200, 100]);
+  });
+
+  it("should give up after maxPolls", async () => {
+    const job = running(0);
+    const promise = pollAsync(() => Promise.resolve(job), { until: isDone, maxPolls: 3 });
+    const settled = promise.catch((error: unknown) => error);
+
+    await vi.runAllTimersAsync();
+
+    const error = await settled;
+    expect(error).toBeInstanceOf(PollExhaustedError);
+    expect(error).toMatchObject({ polls: 3, lastValue: job });
+  });
+
+  it("should stop waiting when the signal aborts", async () => {
+    const controller = new AbortController();
+    const operation = vi.fn(() => Promise.resolve(running(0)));
+    const promise = pollAsync(operation, { until: isDone, signal: controller.signal });
+    const settled = promise.catch((error: unknown) => error);
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(settled).resolves.toBeInstanceOf(AbortError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
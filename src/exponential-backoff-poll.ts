@@ -0,0 +1,364 @@
+/**
+ * Polling with exponential backoff.
+ *
+ * The retry helpers back off on errors, but a job-status endpoint that answers
+ * "still running" succeeds every time. These helpers poll until the answer is
+ * the one you are waiting for, backing off between polls with the same
+ * calculateExponentialBackoff() delays, and report each wait so a UI can show
+ * "checking again in 4s". The waits are reported through `onProgress`, or in
+ * the stream itself with pollWithBackoffProgress. Errors are not retried here;
+ * compose with retryWithBackoff or retryAsync for that.
+ */
+
+import {
+  asyncScheduler,
+  defer,
+  EMPTY,
+  finalize,
+  map,
+  merge,
+  type MonoTypeOperatorFunction,
+  type OperatorFunction,
+  repeat,
+  type SchedulerLike,
+  Subject,
+  takeWhile,
+  throwError,
+  timer
+} from "rxjs";
+import {
+  calculateExponentialBackoff,
+  type BackoffOptions,
+  type BackoffResult
+} from "./exponential-backoff";
+import { PollExhaustedError } from "./exponential-backoff-errors";
+import { createAbortError, sleep, type SleepOptions } from "./exponential-backoff-sleep";
+
+/**
+ * The wait scheduled after a poll whose answer was not ready yet.
+ */
+export interface PollProgress<T> {
+  /**
+   * The last value reported so far, or undefined if nothing was reported.
+   */
+  value: T | undefined;
+
+  /**
+   * The number of polls made so far.
+   */
+  poll: number;
+
+  /**
+   * The backoff attempt the wait was calculated for. Starts at 1 and goes
+   * back to 1 whenever `resetWhen` sees the value change.
+   */
+  attempt: number;
+
+  /**
+   * The wait before the next poll.
+   */
+  backoff: BackoffResult;
+}
+
+/**
+ * What {@link pollWithBackoffProgress} emits: each value the polled resource
+ * reports, and each wait scheduled after a value that was not final.
+ */
+export type PollUpdate<T> =
+  | { type: "value"; value: T }
+  | { type: "waiting"; progress: PollProgress<T> };
+
+/**
+ * Configuration shared by {@link pollWithBackoff} and {@link pollAsync}.
+ *
+ * Accepts every backoff option, which shapes the waits between polls.
+ */
+export interface PollOptions<T> extends BackoffOptions {
+  /**
+   * Decides whether a value is the final answer.
+   *
+   * @param value - A value reported by the polled resource
+   * @param poll - The poll that reported it (1-based)
+   * @returns true to stop polling
+   */
+  until: (value: T, poll: number) => boolean;
+
+  /**
+   * The maximum number of polls before a PollExhaustedError is thrown.
+   *
+   * @defaultValue Infinity
+   */
+  maxPolls?: number;
+
+  /**
+   * Decides whether the backoff should start again from the base delay.
+   *
+   * A job that is making progress deserves a quick check; one that has been
+   * stuck for a while can wait longer.
+   *
+   * @param previous - The value reported before
+   * @param current - The value just reported
+   * @returns true to reset the backoff attempt counter
+   *
+   * @defaultValue Never reset
+   */
+  resetWhen?: (previous: T, current: T) => boolean;
+
+  /**
+   * Called when the next poll has been scheduled, before the wait starts.
+   *
+   * @param progress - The last value and the wait before the next poll
+   */
+  onProgress?: (progress: PollProgress<T>) => void;
+}
+
+/**
+ * Configuration options for the {@link pollWithBackoff} operator.
+ */
+export interface PollWithBackoffOptions<T> extends PollOptions<T> {
+  /**
+   * The RxJS scheduler used for the waits between polls.
+   *
+   * @defaultValue asyncScheduler
+   */
+  scheduler?: SchedulerLike;
+}
+
+/**
+ * Configuration options for {@link pollAsync}.
+ *
+ * Accepts the sleep options, so `signal` cancels a pending wait.
+ */
+export interface PollAsyncOptions<T> extends PollOptions<T>, SleepOptions {}
+
+/**
+ * An operation that {@link pollAsync} calls once per poll.
+ *
+ * @param poll - The poll number (1-based)
+ * @returns The current state of the polled resource
+ */
+export type PollOperation<T> = (poll: number) => Promise<T>;
+
+/**
+ * Tracks the polls of one polling loop and schedules the waits between them.
+ */
+class PollTracker<T> {
+  private polls = 0;
+  private attempt = 0;
+  private previousDelayMs: number | undefined;
+  private latest: { value: T } | undefined;
+
+  constructor(private readonly options: PollOptions<T>) {}
+
+  /**
+   * Counts a new poll and returns its number.
+   */
+  public startPoll(): number {
+    return ++this.polls;
+  }
+
+  /**
+   * Records a reported value and decides whether it is the final answer.
+   */
+  public isDone(value: T): boolean {
+    if (this.latest && this.options.resetWhen?.(this.latest.value, value)) {
+      this.attempt = 0;
+      this.previousDelayMs = undefined;
+    }
+
+    this.latest = { value };
+    return this.options.until(value, this.polls);
+  }
+
+  /**
+   * Calculates the wait before the next poll.
+   *
+   * @throws {PollExhaustedError} When `maxPolls` has been reached
+   */
+  public scheduleNextPoll(): PollProgress<T> {
+    if (this.polls >= (this.options.maxPolls ?? Infinity)) {
+      throw new PollExhaustedError(this.polls, this.latest?.value);
+    }
+
+    this.attempt++;
+    const backoff = calculateExponentialBackoff(
+      this.attempt,
+      this.options,
+      this.previousDelayMs === undefined ? {} : { previousDelayMs: this.previousDelayMs }
+    );
+    this.previousDelayMs = backoff.delayMs;
+
+    const progress: PollProgress<T> = {
+      value: this.latest?.value,
+      poll: this.polls,
+      attempt: this.attempt,
+      backoff
+    };
+    this.options.onProgress?.(progress);
+
+    return progress;
+  }
+}
+
+/**
+ * Re-subscribes to the source with exponential backoff until it emits a final
+ * value.
+ *
+ * Each subscription to the source is one poll. Every value is passed on, so
+ * subscribers see intermediate states; the stream completes after the first
+ * value `until` accepts. A poll that completes without a final value schedules
+ * the next one. Errors from the source are passed on without retrying.
+ *
+ * The waits between polls are only reported to `onProgress`; use
+ * {@link pollWithBackoffProgress} to receive them in the stream instead.
+ *
+ * @param options - The completion check, poll limit and backoff configuration
+ * @returns An operator that repeats the source until it is ready
+ *
+ * @throws {PollExhaustedError} When `maxPolls` polls were not enough
+ *
+ * @example
+ * ```typescript
+ * this.http.get<Job>(`/api/jobs/${id}`).pipe(
+ *   pollWithBackoff({
+ *     until: (job) => job.status === "done",
+ *     resetWhen: (previous, current) => previous.progress !== current.progress,
+ *     baseDelayMs: 1000,
+ *     maxDelayMs: 30000,
+ *     onProgress: ({ backoff }) =>
+ *       this.status.set(`Checking again in ${Math.ceil(backoff.delayMs / 1000)}s`)
+ *   })
+ * );
+ * ```
+ */
+export function pollWithBackoff<T>(
+  options: PollWithBackoffOptions<T>
+): MonoTypeOperatorFunction<T> {
+  const { scheduler = asyncScheduler } = options;
+
+  return (source) =>
+    defer(() => {
+      const tracker = new PollTracker(options);
+      let done = false;
+
+      const poll = defer(() => {
+        tracker.startPoll();
+        return source;
+      });
+
+      return poll.pipe(
+        takeWhile((value) => {
+          done = tracker.isDone(value);
+          return !done;
+        }, true),
+        repeat({
+          delay: () => {
+            if (done) {
+              return EMPTY;
+            }
+
+            try {
+              return timer(tracker.scheduleNextPoll().backoff.delayMs, scheduler);
+            } catch (exhausted: unknown) {
+              return throwError(() => exhausted);
+            }
+          }
+        })
+      );
+    });
+}
+
+/**
+ * Polls like {@link pollWithBackoff}, but emits the scheduled waits in the
+ * stream alongside the values.
+ *
+ * Each value is emitted as a `value` update, and each wait as a `waiting`
+ * update before it starts, so a template can render both from one stream.
+ * `onProgress` is still called for every wait.
+ *
+ * @param options - The completion check, poll limit and backoff configuration
+ * @returns An operator that repeats the source until it is ready, reporting
+ *          its values and waits
+ *
+ * @throws {PollExhaustedError} When `maxPolls` polls were not enough
+ *
+ * @example
+ * ```typescript
+ * this.http.get<Job>(`/api/jobs/${id}`).pipe(
+ *   pollWithBackoffProgress({ until: (job) => job.status === "done" }),
+ *   map((update) =>
+ *     update.type === "waiting"
+ *       ? `Checking again in ${Math.ceil(update.progress.backoff.delayMs / 1000)}s`
+ *       : `Job is ${update.value.status}`
+ *   )
+ * );
+ * ```
+ */
+export function pollWithBackoffProgress<T>(
+  options: PollWithBackoffOptions<T>
+): OperatorFunction<T, PollUpdate<T>> {
+  return (source) =>
+    defer(() => {
+      const waits = new Subject<PollUpdate<T>>();
+      const values = source.pipe(
+        pollWithBackoff({
+          ...options,
+          onProgress: (progress) => {
+            options.onProgress?.(progress);
+            waits.next({ type: "waiting", progress });
+          }
+        }),
+        map((value): PollUpdate<T> => ({ type: "value", value })),
+        finalize(() => waits.complete())
+      );
+
+      return merge(waits, values);
+    });
+}
+
+/**
+ * Calls an async operation with exponential backoff until it returns a final
+ * value.
+ *
+ * Rejections from the operation are passed on without retrying.
+ *
+ * @param operation - The operation to call once per poll
+ * @param options - The completion check, poll limit, backoff configuration
+ *                  and an optional AbortSignal
+ * @returns The final value
+ *
+ * @throws {PollExhaustedError} When `maxPolls` polls were not enough
+ * @throws {AbortError} When the signal is aborted
+ *
+ * @example
+ * ```typescript
+ * const job = await pollAsync(() => getJob(id), {
+ *   until: (job) => job.status === "done",
+ *   maxPolls: 20,
+ *   signal: controller.signal,
+ *   onProgress: ({ backoff }) => console.log(`Checking again in ${backoff.delayMs}ms`)
+ * });
+ * ```
+ */
+export async function pollAsync<T>(
+  operation: PollOperation<T>,
+  options: PollAsyncOptions<T>
+): Promise<T> {
+  const { signal, unref = false } = options;
+  const tracker = new PollTracker(options);
+
+  for (;;) {
+    if (signal?.aborted) {
+      throw createAbortError(signal);
+    }
+
+    const value = await operation(tracker.startPoll());
+
+    if (tracker.isDone(value)) {
+      return value;
+    }
+
+    const { backoff } = tracker.scheduleNextPoll();
+    await sleep(backoff.delayMs, { ...(signal && { signal }), unref });
+  }
+}
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RetryManager } from "./exponential-backoff";
+import { RetryProfileError } from "./exponential-backoff-errors";
+import type { RetryEvent } from "./exponential-backoff-events";
+import {
+  applyRetryProfile,
+  RetryProfileRegistry,
+  retryProfiles
+} from "./exponential-backoff-profiles";
+import {
+  BackoffTimerFactory,
+  createBackoffDelayFunction,
+  debugBackoffDelay
+} from "./exponential-backoff-timer";
+
+describe("RetryProfileRegistry", () => {
+  it("should resolve profiles through the profiles they extend", () => {
+    const profiles = new RetryProfileRegistry({
+      base: { baseDelayMs: 500, maxDelayMs: 5000, jitterFactor: 0.1 },
+      reports: { extends: "base", maxDelayMs: 60000, jitterMode: "full" },
+      nightly: { extends: "reports", maxAttempts: 20 }
+    });
+
+    expect(profiles.names).toEqual(["base", "reports", "nightly"]);
+    expect(profiles.has("reports")).toBe(true);
+    expect(profiles.has("hourly")).toBe(false);
+    expect(profiles.resolve("nightly")).toEqual({
+      baseDelayMs: 500,
+      maxDelayMs: 60000,
+      jitterFactor: 0.1,
+      jitterMode: "full",
+      maxAttempts: 20
+    });
+  });
+
+  it("should apply overrides to the profile and the profiles extending it", () => {
+    const profiles = new RetryProfileRegistry({
+      base: { baseDelayMs: 500, maxDelayMs: 5000 },
+      reports: { extends: "base", maxDelayMs: 60000 }
+    });
+
+    profiles.override("base", { baseDelayMs: 100 }).override("base", { maxDelayMs: 1000 });
+
+    expect(profiles.resolve("base")).toEqual({ baseDelayMs: 100, maxDelayMs: 1000 });
+    // The profile's own settings still win over an overridden parent
+    expect(profiles.resolve("reports")).toEqual({ baseDelayMs: 100, maxDelayMs: 60000 });
+
+    profiles.override("reports", { maxDelayMs: 2000 }).clearOverrides("base");
+    expect(profiles.resolve("reports")).toEqual({ baseDelayMs: 500, maxDelayMs: 2000 });
+
+    profiles.clearOverrides();
+    expect(profiles.resolve("reports")).toEqual({ baseDelayMs: 500, maxDelayMs: 60000 });
+  });
+
+  it("should report unknown, duplicate and cyclic profiles", () => {
+    const profiles = new RetryProfileRegistry({
+      a: { extends: "b" },
+      b: { extends: "a" },
+      orphan: { extends: "missing" }
+    });
+
+    expect(() => profiles.resolve("nope")).toThrow('Retry profile "nope" is not registered');
+    expect(() => profiles.resolve("orphan")).toThrow(
+      'Retry profile "missing" is not registered (extended by "orphan")'
+    );
+    expect(() => profiles.resolve("a")).toThrow('Retry profile "a" extends itself: a -> b -> a');
+    expect(() => profiles.register("a", {})).toThrow(RetryProfileError);
+    expect(() => profiles.override("nope", {})).toThrow('Retry profile "nope" is not registered');
+  });
+});
+
+describe("applyRetryProfile", () => {
+  it("should fill in the profile's settings under the options that are set", () => {
+    expect(
+      applyRetryProfile({ profile: "interactive", maxDelayMs: 2000, maxAttempts: undefined })
+    ).toMatchObject({ baseDelayMs: 250, maxDelayMs: 2000, jitterFactor: 0.25 });
+    expect(applyRetryProfile({ profile: undefined, baseDelayMs: 10 })).toEqual({ baseDelayMs: 10 });
+  });
+});
+
+describe("retry profiles in the helpers", () => {
+  afterEach(() => {
+    retryProfiles.clearOverrides();
+  });
+
+  it("should configure RetryManager and BackoffTimerFactory", () => {
+    const manager = new RetryManager({ profile: "interactive", jitterFactor: 0 });
+    expect(manager.previewNextDelay().delayMs).toBe(250);
+
+    const factory = new BackoffTimerFactory({ profile: "critical" });
+    expect(factory.getOptions()).toMatchObject({
+      baseDelayMs: 500,
+      maxDelayMs: 10000,
+      maxElapsedMs: 120000,
+      profile: "critical"
+    });
+
+    expect(() => new RetryManager({ profile: "nope" })).toThrow(
+      expect.objectContaining({ profile: "nope" }) as RetryProfileError
+    );
+  });
+
+  it("should look profiles up in a custom registry", () => {
+    const profiles = new RetryProfileRegistry({ fast: { baseDelayMs: 5, jitterFactor: 0 } });
+    const manager = new RetryManager({ profile: "fast", profiles });
+
+    expect(manager.previewNextDelay().delayMs).toBe(5);
+  });
+
+  it("should pick up runtime overrides in delay functions at the next retry sequence", () => {
+    const delays: number[] = [];
+    const delay = createBackoffDelayFunction({
+      profile: "interactive",
+      jitterFactor: 0,
+      onEvent: (event: RetryEvent) => {
+        if (event.type === "retry-scheduled") {
+          delays.push(event.backoff.delayMs);
+        }
+      }
+    });
+    const schedule = (retryCount: number) => delay(new Error("boom"), retryCount).subscribe();
+
+    schedule(1).unsubscribe();
+    schedule(2).unsubscribe();
+    retryProfiles.override("interactive", { baseDelayMs: 100 });
+    schedule(3).unsubscribe();
+    schedule(1).unsubscribe();
+
+    expect(delays).toEqual([250, 500, 1000, 100]);
+  });
+
+  it("should leave debugBackoffDelay unaffected by profile overrides", () => {
+    const mockRandom = vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const mockConsoleDebug = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    retryProfiles.override("default", { baseDelayMs: 10, maxDelayMs: 20 });
+    debugBackoffDelay(new Error("boom"), 3).subscribe().unsubscribe();
+
+    expect(mockConsoleDebug).toHaveBeenCalledWith(
+      "[exponential-backoff-timer] Retry 3: 4000ms (raw: 4000ms, no jitter)"
+    );
+
+    mockConsoleDebug.mockRestore();
+    mockRandom.mockRestore();
+  });
+});
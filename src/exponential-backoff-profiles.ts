@@ -0,0 +1,251 @@
+/**
+ * Named retry profiles.
+ *
+ * The same handful of backoff configurations tends to be copied into every
+ * call site, and tuning one means finding all of its copies. A profile gives
+ * a configuration a name ("interactive", "background", "critical"), profiles
+ * can extend each other, and RetryManager, BackoffTimerFactory and the helpers
+ * built on them accept a profile name instead of the individual options.
+ *
+ * @example
+ * ```typescript
+ * retryProfiles
+ *   .register("payments", { extends: "critical", maxAttempts: 8 })
+ *   .override("background", { maxDelayMs: 120000 });
+ *
+ * new RetryManager({ profile: "payments" });
+ * retryWithBackoff({ profile: "interactive", maxRetries: 3 });
+ * retry({ delay: createBackoffDelayFunction({ profile: "background" }) });
+ * ```
+ */
+
+import type { BackoffOptions, RetryLimits } from "./exponential-backoff";
+import { RetryProfileError } from "./exponential-backoff-errors";
+
+/**
+ * The backoff options and retry limits a profile sets.
+ */
+export type RetryProfileSettings = BackoffOptions & RetryLimits;
+
+/**
+ * A named retry profile.
+ */
+export interface RetryProfile extends BackoffOptions, RetryLimits {
+  /**
+   * The name of a profile to inherit settings from. Settings on this profile
+   * take precedence over the inherited ones.
+   */
+  extends?: string;
+}
+
+/**
+ * Options of the helpers that accept a retry profile.
+ */
+export interface RetryProfileOptions {
+  /**
+   * The name of the retry profile to start from. Options set alongside it
+   * take precedence over the profile's settings.
+   */
+  profile?: string | undefined;
+
+  /**
+   * The registry the profile is looked up in.
+   *
+   * @defaultValue The shared `retryProfiles` registry
+   */
+  profiles?: RetryProfileRegistry | undefined;
+}
+
+/**
+ * Copies the settings that are set, leaving out undefined ones.
+ */
+const definedSettings = <T extends object>(settings: T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+
+/**
+ * A set of named retry profiles that can extend each other.
+ *
+ * Profiles are registered once, at startup, and can be overridden at runtime
+ * (from a feature flag or an admin endpoint, say) without touching the code
+ * that uses them. Helpers read a profile when they are created, and the delay
+ * function from createBackoffDelayFunction() re-reads it at the start of every
+ * retry sequence.
+ *
+ * @example
+ * ```typescript
+ * const profiles = new RetryProfileRegistry({
+ *   base: { baseDelayMs: 500, maxDelayMs: 5000 },
+ *   reports: { extends: "base", maxDelayMs: 60000, jitterMode: "full" }
+ * });
+ *
+ * profiles.resolve("reports");
+ * // { baseDelayMs: 500, maxDelayMs: 60000, jitterMode: "full" }
+ * ```
+ */
+export class RetryProfileRegistry {
+  private readonly profiles = new Map<string, RetryProfile>();
+  private readonly overrides = new Map<string, RetryProfileSettings>();
+
+  /**
+   * Creates a registry holding the given profiles.
+   *
+   * @param profiles - Profiles to register, by name
+   */
+  constructor(profiles: Readonly<Record<string, RetryProfile>> = {}) {
+    for (const [name, profile] of Object.entries(profiles)) {
+      this.register(name, profile);
+    }
+  }
+
+  /**
+   * Gets the names of every registered profile.
+   */
+  public get names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  /**
+   * Checks whether a profile is registered.
+   *
+   * @param name - The profile name
+   */
+  public has(name: string): boolean {
+    return this.profiles.has(name);
+  }
+
+  /**
+   * Registers a new profile. The profile it extends does not need to be
+   * registered yet, only by the time the profile is resolved.
+   *
+   * @param name - The profile name
+   * @param profile - The profile's settings and the profile it extends
+   * @returns This registry, for chaining
+   *
+   * @throws {RetryProfileError} When a profile with the name already exists
+   */
+  public register(name: string, profile: RetryProfile): this {
+    if (this.profiles.has(name)) {
+      throw new RetryProfileError(name, "is already registered");
+    }
+
+    this.profiles.set(name, { ...profile });
+    return this;
+  }
+
+  /**
+   * Overrides settings of a registered profile at runtime. Overrides pile up
+   * until cleared, and apply to every profile that extends this one.
+   *
+   * @param name - The profile name
+   * @param settings - The settings to override
+   * @returns This registry, for chaining
+   *
+   * @throws {RetryProfileError} When no profile has the name
+   */
+  public override(name: string, settings: RetryProfileSettings): this {
+    if (!this.profiles.has(name)) {
+      throw new RetryProfileError(name, "is not registered");
+    }
+
+    this.overrides.set(name, { ...this.overrides.get(name), ...definedSettings(settings) });
+    return this;
+  }
+
+  /**
+   * Removes the runtime overrides of one profile, or of every profile.
+   *
+   * @param name - The profile name, or undefined for every profile
+   * @returns This registry, for chaining
+   */
+  public clearOverrides(name?: string): this {
+    if (name === undefined) {
+      this.overrides.clear();
+    } else {
+      this.overrides.delete(name);
+    }
+
+    return this;
+  }
+
+  /**
+   * Resolves a profile into its settings, applying the profiles it extends,
+   * then its own settings, then its overrides.
+   *
+   * @param name - The profile name
+   * @returns The profile's settings
+   *
+   * @throws {RetryProfileError} When the profile, or a profile it extends, is
+   *         not registered, or when profiles extend each other in a cycle
+   */
+  public resolve(name: string): RetryProfileSettings {
+    return this.resolveChain(name, []);
+  }
+
+  /**
+   * Resolves a profile, remembering the chain of names to detect cycles.
+   */
+  private resolveChain(name: string, chain: readonly string[]): RetryProfileSettings {
+    const profile = this.profiles.get(name);
+
+    if (!profile) {
+      const extendedBy = chain[chain.length - 1];
+      throw new RetryProfileError(
+        name,
+        extendedBy === undefined
+          ? "is not registered"
+          : `is not registered (extended by "${extendedBy}")`
+      );
+    }
+
+    if (chain.includes(name)) {
+      throw new RetryProfileError(name, `extends itself: ${[...chain, name].join(" -> ")}`);
+    }
+
+    const { extends: parent, ...settings } = profile;
+
+    return {
+      ...(parent === undefined ? {} : this.resolveChain(parent, [...chain, name])),
+      ...definedSettings(settings),
+      ...this.overrides.get(name)
+    };
+  }
+}
+
+/**
+ * The shared registry used when no other registry is passed.
+ *
+ * It starts with four profiles:
+ * - `default`: 1s growing to 5s with ±20% jitter, the library defaults
+ * - `interactive`: 250ms growing to 1s, for requests a user is waiting on
+ * - `background`: 2s growing to 60s with full jitter, for jobs and queues
+ * - `critical`: 500ms growing to 10s, retrying for up to 2 minutes
+ */
+export const retryProfiles = new RetryProfileRegistry({
+  default: { baseDelayMs: 1000, maxDelayMs: 5000, jitterFactor: 0.2 },
+  interactive: { extends: "default", baseDelayMs: 250, maxDelayMs: 1000, jitterFactor: 0.25 },
+  background: { extends: "default", baseDelayMs: 2000, maxDelayMs: 60000, jitterMode: "full" },
+  critical: { extends: "default", baseDelayMs: 500, maxDelayMs: 10000, maxElapsedMs: 120000 }
+});
+
+/**
+ * Merges a helper's options over the settings of its retry profile.
+ *
+ * Used by RetryManager and BackoffTimerFactory; options that are set take
+ * precedence over the profile.
+ *
+ * @param options - The helper's options, with an optional profile name
+ * @returns The options with the profile's settings filled in
+ *
+ * @throws {RetryProfileError} When the profile cannot be resolved
+ */
+export const applyRetryProfile = <T extends RetryProfileOptions>(options: T): T => {
+  if (options.profile === undefined) {
+    return options;
+  }
+
+  const registry = options.profiles ?? retryProfiles;
+
+  return { ...registry.resolve(options.profile), ...definedSettings(options) } as T;
+};
@@ -0,0 +1,124 @@
+import { defer, type Observable, Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import { RetryExhaustedError } from "./exponential-backoff-errors";
+import { reconnectWithBackoff, type ConnectionStateChange } from "./exponential-backoff-reconnect";
+import { createTestScheduler } from "./test-helpers";
+
+/**
+ * Creates a connection factory that returns the given connections in turn.
+ */
+const connections = (...sources: Observable<string>[]) => {
+  let count = 0;
+  return () => sources[Math.min(count++, sources.length - 1)] as Observable<string>;
+};
+
+const summarize = (changes: ConnectionStateChange[]) =>
+  changes.map(({ state, attempt, at, backoff }) =>
+    backoff ? [state, attempt, at, backoff.delayMs] : [state, attempt, at]
+  );
+
+describe("reconnectWithBackoff", () => {
+  it("should reconnect on errors and completions with growing delays", () => {
+    const changes: ConnectionStateChange[] = [];
+
+    createTestScheduler().run(({ cold, expectObservable }) => {
+      const stream = reconnectWithBackoff(connections(cold("a#"), cold("b|"), cold("c")), {
+        baseDelayMs: 10,
+        jitterFactor: 0,
+        onStateChange: (change) => changes.push(change)
+      });
+
+      expectObservable(stream.values$).toBe("a 10ms b 20ms c");
+    });
+
+    expect(summarize(changes)).toEqual([
+      ["connecting", 0, 0],
+      ["open", 0, 0],
+      ["backing-off", 1, 1, 10],
+      ["connecting", 1, 11],
+      ["open", 1, 11],
+      ["backing-off", 2, 12, 20],
+      ["connecting", 2, 32],
+      ["open", 2, 32]
+    ]);
+  });
+
+  it("should start the backoff again after a stable connection", () => {
+    const changes: ConnectionStateChange[] = [];
+
+    createTestScheduler().run(({ cold, expectObservable }) => {
+      const stream = reconnectWithBackoff(
+        connections(cold("a#"), cold("b 50ms #"), cold("c#"), cold("d")),
+        {
+          baseDelayMs: 10,
+          jitterFactor: 0,
+          stableAfterMs: 30,
+          onStateChange: (change) => changes.push(change)
+        }
+      );
+
+      expectObservable(stream.values$).toBe("a 10ms b 60ms c 20ms d");
+    });
+
+    expect(summarize(changes.filter(({ state }) => state === "backing-off"))).toEqual([
+      ["backing-off", 1, 1, 10],
+      ["backing-off", 1, 62, 10],
+      ["backing-off", 2, 73, 20]
+    ]);
+  });
+
+  it("should close once a retry limit stops reconnecting", () => {
+    const failure = new Error("connection refused");
+
+    createTestScheduler().run(({ cold, expectObservable, flush }) => {
+      const stream = reconnectWithBackoff(connections(cold("#", undefined, failure)), {
+        baseDelayMs: 10,
+        jitterFactor: 0,
+        maxAttempts: 1
+      });
+
+      expectObservable(stream.values$).toBe(
+        "10ms #",
+        undefined,
+        new RetryExhaustedError(
+          "maxAttempts",
+          { attempts: 1, elapsedMs: 10, totalDelayMs: 10 },
+          { cause: failure }
+        )
+      );
+      flush();
+
+      expect(stream.state).toBe("closed");
+    });
+  });
+
+  it("should share one connection and replay the last value", () => {
+    const source = new Subject<string>();
+    let connects = 0;
+    const stream = reconnectWithBackoff(
+      defer(() => {
+        connects++;
+        return source;
+      })
+    );
+    const states: string[] = [];
+    const first: string[] = [];
+    const late: string[] = [];
+
+    stream.state$.subscribe(({ state }) => states.push(state));
+    const firstSubscription = stream.values$.subscribe((value) => first.push(value));
+    source.next("a");
+    const lateSubscription = stream.values$.subscribe((value) => late.push(value));
+    source.next("b");
+
+    expect(connects).toBe(1);
+    expect(first).toEqual(["a", "b"]);
+    expect(late).toEqual(["a", "b"]);
+    expect(stream.state).toBe("open");
+
+    firstSubscription.unsubscribe();
+    lateSubscription.unsubscribe();
+
+    expect(states).toEqual(["closed", "connecting", "open", "closed"]);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Reconnection with exponential backoff for long-lived streams.
+ *
+ * A live stream (a WebSocket, a server-sent event feed, a change stream) is
+ * expected to run forever, so both an error and a completion mean the
+ * connection dropped. reconnectWithBackoff() reconnects in either case,
+ * backing off with a BackoffTimerFactory, and starts the backoff again once a
+ * connection has stayed up for a while. The connection is shared between
+ * subscribers, and its state is published for status indicators.
+ */
+
+import {
+  BehaviorSubject,
+  defer,
+  finalize,
+  type Observable,
+  repeat,
+  ReplaySubject,
+  retry,
+  share,
+  Subject,
+  tap,
+  throwError,
+  timer
+} from "rxjs";
+import type { BackoffResult } from "./exponential-backoff";
+import { isRetryableError } from "./exponential-backoff-classifiers";
+import { BackoffTimerFactory, type BackoffTimerOptions } from "./exponential-backoff-timer";
+
+/**
+ * The states of a {@link ReconnectingStream}.
+ *
+ * - `connecting`: subscribed to the source, waiting for its first value
+ * - `open`: the source has emitted on the current connection
+ * - `backing-off`: the connection dropped; waiting before reconnecting
+ * - `closed`: nobody is subscribed, or reconnecting stopped
+ */
+export type ConnectionState = "connecting" | "open" | "backing-off" | "closed";
+
+/**
+ * Describes a transition between connection states.
+ */
+export interface ConnectionStateChange {
+  /**
+   * The state after the transition.
+   */
+  state: ConnectionState;
+
+  /**
+   * The reconnect attempt, or 0 for the initial connection. Goes back to 0
+   * once a connection has been stable for `stableAfterMs`.
+   */
+  attempt: number;
+
+  /**
+   * When the transition happened, read from the scheduler.
+   */
+  at: number;
+
+  /**
+   * The wait before reconnecting. Only set for transitions to "backing-off".
+   */
+  backoff?: BackoffResult;
+}
+
+/**
+ * Configuration options for {@link reconnectWithBackoff}.
+ *
+ * Accepts every backoff timer option. The retry limits (such as
+ * `maxAttempts` and `maxElapsedMs`) apply to the reconnects since the last
+ * stable connection, and the `classifier` decides which errors are worth a
+ * reconnect.
+ */
+export interface ReconnectOptions extends BackoffTimerOptions {
+  /**
+   * How long in milliseconds a connection must stay open before the next drop
+   * starts the backoff again from the base delay.
+   *
+   * @defaultValue 30000
+   */
+  stableAfterMs?: number;
+
+  /**
+   * Whether late subscribers, and subscribers while reconnecting, receive the
+   * last value straight away.
+   *
+   * @defaultValue true
+   */
+  replayLast?: boolean;
+
+  /**
+   * Called on every state transition.
+   */
+  onStateChange?: (change: ConnectionStateChange) => void;
+}
+
+/**
+ * A live stream that reconnects with exponential backoff.
+ */
+export interface ReconnectingStream<T> {
+  /**
+   * The values of the current connection. Connects on the first subscription
+   * and disconnects once the last subscriber leaves; errors only when
+   * reconnecting stops.
+   */
+  readonly values$: Observable<T>;
+
+  /**
+   * Emits the current state on subscription, then every transition.
+   */
+  readonly state$: Observable<ConnectionStateChange>;
+
+  /**
+   * The current state.
+   */
+  readonly state: ConnectionState;
+}
+
+/**
+ * Keeps a long-lived stream connected, reconnecting with exponential backoff
+ * whenever it errors or completes.
+ *
+ * A connection counts as open once it emits its first value. A drop after
+ * the connection stayed open for `stableAfterMs` starts a fresh retry
+ * sequence, so a stream that has been healthy for hours reconnects quickly.
+ * Errors the `classifier` aborts on, and errors raised by a retry limit or
+ * the retry budget, end the stream.
+ *
+ * @param connect - The source, or a factory called for every connection
+ * @param options - Backoff configuration, stable period and callbacks
+ * @returns The shared stream and its connection state
+ *
+ * @example
+ * ```typescript
+ * const prices = reconnectWithBackoff(() => webSocket<Price>("wss://example.com/prices"), {
+ *   baseDelayMs: 500,
+ *   maxDelayMs: 30000,
+ *   stableAfterMs: 60000
+ * });
+ *
+ * prices.state$.subscribe(({ state, backoff }) =>
+ *   banner.show(state === "backing-off" ? `Reconnecting in ${backoff?.delayMs}ms` : state)
+ * );
+ * prices.values$.subscribe((price) => chart.update(price));
+ * ```
+ */
+export function reconnectWithBackoff<T>(
+  connect: Observable<T> | (() => Observable<T>),
+  options: ReconnectOptions = {}
+): ReconnectingStream<T> {
+  const { stableAfterMs = 30000, replayLast = true, onStateChange, ...timerOptions } = options;
+  const timers = new BackoffTimerFactory(timerOptions);
+  const { scheduler, classifier } = timers.getOptions();
+  const changes = new BehaviorSubject<ConnectionStateChange>({
+    state: "closed",
+    attempt: 0,
+    at: scheduler.now()
+  });
+  let attempt = 0;
+  let openedAt: number | undefined;
+
+  const transition = (state: ConnectionState, backoff?: BackoffResult) => {
+    const change: ConnectionStateChange = { state, attempt, at: scheduler.now() };
+
+    if (backoff) {
+      change.backoff = backoff;
+    }
+
+    onStateChange?.(change);
+    changes.next(change);
+  };
+
+  const reconnect = (error?: unknown): Observable<number> => {
+    if (openedAt !== undefined && scheduler.now() - openedAt >= stableAfterMs) {
+      attempt = 0;
+    }
+
+    openedAt = undefined;
+
+    if (error !== undefined && !isRetryableError(error, classifier)) {
+      timers.emit({ type: "gave-up", attempt: attempt + 1, error, reason: "non-retryable" });
+      return throwError(() => error);
+    }
+
+    let backoff: BackoffResult;
+
+    try {
+      // A retry count of 1 starts a fresh sequence for the retry limits
+      backoff = timers.calculate(attempt + 1, undefined, error);
+    } catch (exhausted: unknown) {
+      return throwError(() => exhausted);
+    }
+
+    attempt++;
+    transition("backing-off", backoff);
+
+    return timer(backoff.delayMs, scheduler);
+  };
+
+  const connection = defer(() => {
+    transition("connecting");
+    return typeof connect === "function" ? connect() : connect;
+  }).pipe(
+    tap(() => {
+      if (openedAt === undefined) {
+        openedAt = scheduler.now();
+        transition("open");
+      }
+    }),
+    retry({ delay: (error: unknown) => reconnect(error) }),
+    repeat({ delay: () => reconnect() }),
+    finalize(() => {
+      attempt = 0;
+      openedAt = undefined;
+      transition("closed");
+    })
+  );
+
+  return {
+    values$: connection.pipe(
+      share({ connector: () => (replayLast ? new ReplaySubject<T>(1) : new Subject<T>()) })
+    ),
+    state$: changes.asObservable(),
+    get state() {
+      return changes.value.state;
+    }
+  };
+}
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { BackoffResult } from "./exponential-backoff";
+import {
+  AbortError,
+  AttemptTimeoutError,
+  RetryError,
+  RetryExhaustedError
+} from "./exponential-backoff-errors";
+import { retryAsync } from "./exponential-backoff-retry-async";
+
+/**
+ * Creates an operation that fails `failures` times before resolving "success".
+ */
+const failingOperation = (failures: number) =>
+  vi.fn((attempt: number, _signal: AbortSignal) =>
+    attempt <= failures
+      ? Promise.reject(new Error(`attempt ${attempt} failed`))
+      : Promise.resolve("success")
+  );
+
+const rejection = async (promise: Promise<unknown>): Promise<RetryError> => {
+  const error: unknown = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(RetryError);
+  return error as RetryError;
+};
+
+describe("retryAsync", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve with the first successful result", async () => {
+    const operation = failingOperation(2);
+    const promise = retryAsync(operation, { baseDelayMs: 100, jitterFactor: 0 });
+
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe("success");
+    expect(operation.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+  });
+
+  it("should wait with the same delays as calculateExponentialBackoff", async () => {
+    const onRetry = vi.fn((_error: unknown, _attempt: number, _result: BackoffResult) => {});
+    const promise = retryAsync(failingOperation(3), {
+      baseDelayMs: 100,
+      jitterFactor: 0,
+      onRetry
+    });
+
+    await vi.advanceTimersByTimeAsync(100 + 200);
+    expect(onRetry).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(399);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toBe("success");
+
+    expect(onRetry.mock.calls.map(([, attempt, result]) => [attempt, result.delayMs])).toEqual([
+      [1, 100],
+      [2, 200],
+      [3, 400]
+    ]);
+  });
+
+  it("should reject with the attempt history when retries are exhausted", async () => {
+    const promise = rejection(
+      retryAsync(failingOperation(10), { baseDelayMs: 10, jitterFactor: 0, maxAttempts: 2 })
+    );
+
+    await vi.runAllTimersAsync();
+    const error = await promise;
+
+    expect(error.reason).toBe("exhausted");
+    expect(error.cause).toBeInstanceOf(RetryExhaustedError);
+    expect(error.attempts.map(({ attempt, backoff }) => [attempt, backoff?.delayMs])).toEqual([
+      [1, 10],
+      [2, 20],
+      [3, undefined]
+    ]);
+    expect((error.lastError as Error).message).toBe("attempt 3 failed");
+  });
+
+  it("should stop immediately on non-retryable errors", async () => {
+    const shouldRetry = vi.fn(() => false);
+    const error = await rejection(retryAsync(failingOperation(10), { shouldRetry }));
+
+    expect(error.reason).toBe("non-retryable");
+    expect(error.attempts).toHaveLength(1);
+    expect((error.cause as Error).message).toBe("attempt 1 failed");
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+
+  it("should time out slow attempts and retry them", async () => {
+    const operation = vi.fn((attempt: number, signal: AbortSignal) =>
+      attempt === 1
+        ? new Promise<string>(() => {
+            expect(signal.aborted).toBe(false);
+          })
+        : Promise.resolve(`attempt ${attempt}`)
+    );
+    const promise = retryAsync(operation, {
+      baseDelayMs: 10,
+      jitterFactor: 0,
+      attemptTimeoutMs: 50
+    });
+
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe("attempt 2");
+    expect(operation.mock.calls[0]?.[1].aborted).toBe(true);
+    expect(operation.mock.calls[0]?.[1].reason).toBeInstanceOf(AttemptTimeoutError);
+  });
+
+  it("should grow the timeout along a curve and cut it at the deadline", async () => {
+    const promise = rejection(
+      retryAsync(() => new Promise<never>(() => {}), {
+        baseDelayMs: 10,
+        jitterFactor: 0,
+        maxElapsedMs: 200,
+        attemptTimeoutMs: { initialMs: 50 }
+      })
+    );
+
+    await vi.runAllTimersAsync();
+    const error = await promise;
+
+    // 50ms, wait 10, 100ms, wait 20, then only 20ms of the 200ms timeout remain
+    expect(error.attempts.map((record) => (record.error as AttemptTimeoutError).timeoutMs)).toEqual(
+      [50, 100, 20]
+    );
+    expect(error.reason).toBe("exhausted");
+  });
+
+  it("should report timeouts in the history", async () => {
+    const promise = rejection(
+      retryAsync(() => new Promise<never>(() => {}), { attemptTimeoutMs: 50, maxAttempts: 0 })
+    );
+
+    await vi.runAllTimersAsync();
+    const error = await promise;
+
+    expect(error.attempts[0]?.error).toBeInstanceOf(AttemptTimeoutError);
+    expect(error.attempts[0]?.durationMs).toBe(50);
+  });
+
+  it("should abort the pending attempt and backoff when the caller cancels", async () => {
+    const controller = new AbortController();
+    const promise = rejection(
+      retryAsync(failingOperation(10), { baseDelayMs: 1000, signal: controller.signal })
+    );
+
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    const error = await promise;
+
+    expect(error.reason).toBe("aborted");
+    expect(error.cause).toBeInstanceOf(AbortError);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should not call the operation when the signal is already aborted", async () => {
+    const operation = failingOperation(0);
+    const error = await rejection(retryAsync(operation, { signal: AbortSignal.abort() }));
+
+    expect(error.reason).toBe("aborted");
+    expect(operation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Promise-based retries with exponential backoff.
+ *
+ * This module packages the `while (canRetry()) { try ... catch ... waitForNextRetry() }`
+ * loop from the RetryManager documentation into a single function, for code
+ * that uses async/await rather than RxJS. Delays come from the same
+ * calculateExponentialBackoff() as the RxJS helpers, so both paths behave alike.
+ */
+
+import { RetryManager, type BackoffResult, type RetryManagerOptions } from "./exponential-backoff";
+import {
+  AbortError,
+  AttemptTimeoutError,
+  RetryBudgetExhaustedError,
+  RetryError,
+  RetryExhaustedError,
+  type RetryAttemptRecord
+} from "./exponential-backoff-errors";
+import { createAbortError, linkAbortSignals, sleep } from "./exponential-backoff-sleep";
+import { resolveAttemptTimeoutMs, type AttemptTimeout } from "./exponential-backoff-timeout";
+
+/**
+ * An operation that {@link retryAsync} can call repeatedly.
+ *
+ * @param attempt - The attempt number, where 1 is the initial call
+ * @param signal - Aborted when the attempt times out or the caller cancels;
+ *                 pass it on to fetch() or other cancellable APIs
+ * @returns The result of the operation
+ */
+export type RetryableOperation<T> = (attempt: number, signal: AbortSignal) => Promise<T>;
+
+/**
+ * Configuration options for {@link retryAsync}.
+ *
+ * Accepts every RetryManager option (backoff, limits, `signal`, `unref`,
+ * `retryBudget`, `onEvent` and `logger`), plus the retry policy, callbacks and
+ * per-attempt timeout.
+ */
+export interface RetryAsyncOptions<E = unknown> extends RetryManagerOptions {
+  /**
+   * Decides whether an error should be retried. Takes precedence over
+   * `classifier`.
+   *
+   * @param error - The error thrown by the operation
+   * @param attempt - The attempt that failed, which is also the number of the
+   *                  retry this error would trigger
+   * @returns true to retry the error
+   *
+   * @defaultValue Retry every error
+   */
+  shouldRetry?: (error: E, attempt: number) => boolean;
+
+  /**
+   * Called when a retry has been scheduled, before the delay starts.
+   *
+   * @param error - The error that triggered the retry
+   * @param attempt - The retry attempt number (1-based)
+   * @param result - The calculated backoff for this retry
+   */
+  onRetry?: (error: E, attempt: number, result: BackoffResult) => void;
+
+  /**
+   * The maximum time in milliseconds a single attempt may run, either fixed
+   * or growing from attempt to attempt along an `AttemptTimeoutCurve`.
+   *
+   * A timed-out attempt has its signal aborted and fails with an
+   * AttemptTimeoutError, which is retried like any other retryable error.
+   * With `maxElapsedMs` set, the timeout is cut short so the last attempt
+   * ends by the deadline.
+   *
+   * @defaultValue No timeout
+   */
+  attemptTimeoutMs?: AttemptTimeout;
+}
+
+/**
+ * Runs one attempt, failing it with an AttemptTimeoutError if it runs too long.
+ */
+const runAttempt = async <T>(
+  operation: RetryableOperation<T>,
+  attempt: number,
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined
+): Promise<T> => {
+  const controller = new AbortController();
+  const linked = linkAbortSignals(signal, controller.signal);
+  let handle: ReturnType<typeof setTimeout> | undefined;
+
+  const aborted = new Promise<never>((_resolve, reject) => {
+    const fail = () =>
+      reject(
+        linked.signal.reason instanceof Error
+          ? linked.signal.reason
+          : createAbortError(linked.signal)
+      );
+    linked.signal.addEventListener("abort", fail, { once: true });
+  });
+
+  if (timeoutMs !== undefined) {
+    handle = setTimeout(
+      () => controller.abort(new AttemptTimeoutError(timeoutMs, attempt)),
+      timeoutMs
+    );
+  }
+
+  try {
+    return await Promise.race([operation(attempt, linked.signal), aborted]);
+  } finally {
+    clearTimeout(handle);
+    linked.dispose();
+  }
+};
+
+/**
+ * Calls an async operation until it succeeds, waiting with exponential
+ * backoff between attempts.
+ *
+ * Every step is reported to `onEvent` and `logger` as a retry lifecycle
+ * event, from `attempt-started` through `retry-succeeded`, `gave-up` or
+ * `cancelled`.
+ *
+ * @param operation - The operation to call; receives the attempt number and an
+ *                    AbortSignal for the attempt
+ * @param options - Backoff configuration, limits, retry policy and callbacks
+ * @returns The operation's result
+ *
+ * @throws {RetryError} When the operation did not succeed. `reason` says why
+ *         retrying stopped, `attempts` holds the full history, and `cause` is
+ *         the error that ended the loop.
+ *
+ * @example
+ * ```typescript
+ * const user = await retryAsync(
+ *   (attempt, signal) => fetch(`/api/users/${id}`, { signal }).then(toJson),
+ *   {
+ *     baseDelayMs: 250,
+ *     maxAttempts: 4,
+ *     maxElapsedMs: 10000,
+ *     attemptTimeoutMs: 2000,
+ *     shouldRetry: (error) => !(error instanceof HttpRequestError) || error.status >= 500,
+ *     onRetry: (error, attempt, result) => logger.warn(`retrying: ${result}`)
+ *   }
+ * );
+ * ```
+ */
+export async function retryAsync<T, E = unknown>(
+  operation: RetryableOperation<T>,
+  options: RetryAsyncOptions<E> = {}
+): Promise<T> {
+  const { shouldRetry, onRetry, attemptTimeoutMs, ...managerOptions } = options;
+  const manager = new RetryManager(managerOptions);
+  const attempts: RetryAttemptRecord[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) {
+      manager.emit({ type: "cancelled", attempt });
+      throw new RetryError("aborted", attempts, { cause: createAbortError(options.signal) });
+    }
+
+    const startedAt = Date.now();
+    manager.emit({ type: "attempt-started", attempt });
+
+    try {
+      const timeoutMs = resolveAttemptTimeoutMs(
+        attemptTimeoutMs,
+        attempt,
+        manager.limits.maxElapsedMs - manager.elapsedMs
+      );
+      const result = await runAttempt(operation, attempt, options.signal, timeoutMs);
+      manager.emit({ type: "retry-succeeded", attempt });
+      return result;
+    } catch (error: unknown) {
+      const record: RetryAttemptRecord = {
+        attempt,
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        error
+      };
+      attempts.push(record);
+
+      if (options.signal?.aborted) {
+        manager.emit({ type: "cancelled", attempt });
+        throw new RetryError("aborted", attempts, { cause: createAbortError(options.signal) });
+      }
+
+      manager.emit({ type: "attempt-failed", attempt, error });
+
+      const retryable = shouldRetry ? shouldRetry(error as E, attempt) : manager.shouldRetry(error);
+
+      if (!retryable) {
+        manager.emit({ type: "gave-up", attempt, error, reason: "non-retryable" });
+        throw new RetryError("non-retryable", attempts, { cause: error });
+      }
+
+      try {
+        record.backoff = manager.scheduleNextRetry(error);
+        onRetry?.(error as E, attempt, record.backoff);
+        await sleep(record.backoff.delayMs, {
+          ...(options.signal && { signal: options.signal }),
+          unref: options.unref ?? false
+        });
+      } catch (stop: unknown) {
+        if (stop instanceof RetryExhaustedError) {
+          throw new RetryError("exhausted", attempts, { cause: stop });
+        }
+
+        if (stop instanceof RetryBudgetExhaustedError) {
+          throw new RetryError("budget-exhausted", attempts, { cause: stop });
+        }
+
+        if (stop instanceof AbortError) {
+          manager.emit({ type: "cancelled", attempt: attempt + 1 });
+          throw new RetryError("aborted", attempts, { cause: stop });
+        }
+
+        throw stop;
+      }
+    }
+  }
+}
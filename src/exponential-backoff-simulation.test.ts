@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { simulateBackoff } from "./exponential-backoff-simulation";
+
+describe("simulateBackoff", () => {
+  it("should lay out exact bounds and where the cap takes over", () => {
+    const { attempts, capAttempt } = simulateBackoff(
+      { baseDelayMs: 100, maxDelayMs: 1000, jitterFactor: 0.2 },
+      { attempts: 5, runs: 200, seed: 1 }
+    );
+
+    expect(attempts.map(({ minDelayMs }) => minDelayMs)).toEqual([80, 160, 320, 640, 800]);
+    expect(attempts.map(({ maxDelayMs }) => maxDelayMs)).toEqual([120, 240, 480, 960, 1200]);
+    expect(attempts.map(({ cumulativeMinDelayMs }) => cumulativeMinDelayMs)).toEqual([
+      80, 240, 560, 1200, 2000
+    ]);
+    expect(attempts.at(-1)?.cumulativeMaxDelayMs).toBe(3000);
+    expect(capAttempt).toBe(5);
+    expect(attempts.map(({ wasCapped }) => wasCapped)).toEqual([false, false, false, false, true]);
+  });
+
+  it("should report expected delays and percentile bands from the runs", () => {
+    const { attempts, runs } = simulateBackoff(
+      { baseDelayMs: 250, maxDelayMs: 1000, jitterMode: "full" },
+      { attempts: 4, runs: 2000, percentiles: [10, 50, 99], seed: 7 }
+    );
+
+    expect(runs).toBe(2000);
+
+    for (const attempt of attempts) {
+      const [p10, p50, p99] = attempt.percentiles;
+
+      expect(attempt.expectedDelayMs).toBeGreaterThanOrEqual(attempt.minDelayMs);
+      expect(attempt.expectedDelayMs).toBeLessThanOrEqual(attempt.maxDelayMs);
+      expect(p10?.delayMs).toBeLessThanOrEqual(p50?.delayMs ?? 0);
+      expect(p50?.delayMs).toBeLessThanOrEqual(p99?.delayMs ?? 0);
+      expect(p99?.cumulativeDelayMs).toBeLessThanOrEqual(attempt.cumulativeMaxDelayMs);
+      expect(p99?.percentile).toBe(99);
+    }
+
+    // Full jitter averages half of the capped delay
+    expect(attempts[3]?.expectedDelayMs).toBeCloseTo(500, -2);
+    expect(attempts[3]?.cumulativeExpectedDelayMs).toBeCloseTo(1375, -2);
+  });
+
+  it("should agree with itself when nothing is random", () => {
+    const { attempts, capAttempt } = simulateBackoff(
+      { baseDelayMs: 100, maxDelayMs: 10000, jitterMode: "none" },
+      { attempts: 3, runs: 10 }
+    );
+
+    expect(attempts[2]).toEqual({
+      attempt: 3,
+      minDelayMs: 400,
+      expectedDelayMs: 400,
+      maxDelayMs: 400,
+      cumulativeMinDelayMs: 700,
+      cumulativeExpectedDelayMs: 700,
+      cumulativeMaxDelayMs: 700,
+      wasCapped: false,
+      percentiles: [
+        { percentile: 50, delayMs: 400, cumulativeDelayMs: 700 },
+        { percentile: 90, delayMs: 400, cumulativeDelayMs: 700 },
+        { percentile: 99, delayMs: 400, cumulativeDelayMs: 700 }
+      ]
+    });
+    expect(capAttempt).toBeUndefined();
+  });
+
+  it("should carry the previous delay through decorrelated jitter", () => {
+    const { attempts } = simulateBackoff(
+      { baseDelayMs: 100, maxDelayMs: 5000, jitterMode: "decorrelated" },
+      { attempts: 4, runs: 100, seed: 3 }
+    );
+
+    expect(attempts.map(({ minDelayMs }) => minDelayMs)).toEqual([100, 100, 100, 100]);
+    expect(attempts.map(({ maxDelayMs }) => maxDelayMs)).toEqual([300, 900, 2700, 5000]);
+  });
+
+  it("should be reproducible with a seed", () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 2000 };
+
+    expect(simulateBackoff(options, { seed: 99, runs: 50 })).toEqual(
+      simulateBackoff(options, { seed: 99, runs: 50 })
+    );
+  });
+});
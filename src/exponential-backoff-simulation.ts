@@ -0,0 +1,267 @@
+/**
+ * Previews of whole backoff schedules.
+ *
+ * previewNextDelay() shows a single jittered delay, which says little about
+ * whether a configuration fits a latency budget. simulateBackoff() lays out
+ * the full schedule: the bounds of every delay, how long the waits add up
+ * to, where the cap takes over, and percentile bands from many simulated runs.
+ *
+ * @example
+ * ```typescript
+ * const { attempts } = simulateBackoff({ baseDelayMs: 250, maxDelayMs: 1000 }, { attempts: 5 });
+ * const p99 = attempts[4]?.percentiles.find(({ percentile }) => percentile === 99);
+ *
+ * // Does waiting for 5 retries fit the 5 second SLA in 99% of runs?
+ * expect(p99?.cumulativeDelayMs).toBeLessThan(5000);
+ * ```
+ */
+
+import {
+  calculateExponentialBackoff,
+  createSeededRandom,
+  type BackoffOptions,
+  type BackoffResult
+} from "./exponential-backoff";
+
+/**
+ * Configuration options for {@link simulateBackoff}.
+ */
+export interface BackoffSimulationOptions {
+  /**
+   * The number of retries to lay out.
+   *
+   * @defaultValue 10
+   */
+  attempts?: number;
+
+  /**
+   * The number of randomized runs used for the expected delays and the
+   * percentile bands.
+   *
+   * @defaultValue 1000
+   */
+  runs?: number;
+
+  /**
+   * The percentiles to report, between 0 and 100.
+   *
+   * @defaultValue [50, 90, 99]
+   */
+  percentiles?: readonly number[];
+
+  /**
+   * A seed for the randomized runs, so a simulation can be asserted on in
+   * tests. Takes precedence over the backoff options' `random`.
+   *
+   * @defaultValue The backoff options' `random`, or Math.random
+   */
+  seed?: number;
+}
+
+/**
+ * One percentile of the simulated runs.
+ */
+export interface BackoffPercentile {
+  /**
+   * The percentile, between 0 and 100.
+   */
+  percentile: number;
+
+  /**
+   * The delay of this retry that the given share of runs stayed within.
+   */
+  delayMs: number;
+
+  /**
+   * The total wait up to and including this retry that the given share of
+   * runs stayed within.
+   */
+  cumulativeDelayMs: number;
+}
+
+/**
+ * The simulated schedule of one retry.
+ */
+export interface SimulatedAttempt {
+  /**
+   * The retry attempt number (1-based).
+   */
+  attempt: number;
+
+  /**
+   * The shortest possible delay, at the bottom of the jitter range.
+   */
+  minDelayMs: number;
+
+  /**
+   * The mean delay across the simulated runs.
+   */
+  expectedDelayMs: number;
+
+  /**
+   * The longest possible delay, at the top of the jitter range.
+   */
+  maxDelayMs: number;
+
+  /**
+   * The shortest possible total wait up to and including this retry.
+   */
+  cumulativeMinDelayMs: number;
+
+  /**
+   * The mean total wait up to and including this retry.
+   */
+  cumulativeExpectedDelayMs: number;
+
+  /**
+   * The longest possible total wait up to and including this retry.
+   */
+  cumulativeMaxDelayMs: number;
+
+  /**
+   * Whether `maxDelayMs` caps the delay of this retry.
+   */
+  wasCapped: boolean;
+
+  /**
+   * The percentile bands from the simulated runs, in the order requested.
+   */
+  percentiles: BackoffPercentile[];
+}
+
+/**
+ * The simulated schedule of a backoff configuration.
+ */
+export interface BackoffSimulation {
+  /**
+   * The schedule of every retry, in order.
+   */
+  attempts: SimulatedAttempt[];
+
+  /**
+   * The first retry whose delay is capped by `maxDelayMs`, or undefined if
+   * the cap is not reached within the simulated retries.
+   */
+  capAttempt: number | undefined;
+
+  /**
+   * The number of randomized runs the expected delays and percentiles come from.
+   */
+  runs: number;
+}
+
+/**
+ * Runs one retry sequence, carrying the previous delay like the retry helpers do.
+ */
+const runSchedule = (
+  options: BackoffOptions,
+  attempts: number,
+  random: () => number
+): BackoffResult[] => {
+  const results: BackoffResult[] = [];
+  let previousDelayMs: number | undefined;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const result = calculateExponentialBackoff(
+      attempt,
+      { ...options, random },
+      previousDelayMs === undefined ? {} : { previousDelayMs }
+    );
+    results.push(result);
+    previousDelayMs = result.delayMs;
+  }
+
+  return results;
+};
+
+/**
+ * Returns the nearest-rank percentile of sorted samples.
+ */
+const percentileOf = (sorted: readonly number[], percentile: number): number => {
+  const rank = Math.ceil((Math.min(100, Math.max(0, percentile)) / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))] ?? 0;
+};
+
+/**
+ * Lays out the full backoff schedule of a configuration.
+ *
+ * The minimum and maximum delays are exact: they come from sequences where
+ * every jitter roll lands at the bottom or the top of its range. The expected
+ * delays and the percentile bands come from `runs` randomized sequences.
+ * Server hints such as Retry-After are not simulated.
+ *
+ * @param options - The backoff configuration to simulate
+ * @param simulation - The number of retries and runs, percentiles and seed
+ * @returns The schedule of every retry and where the cap takes over
+ *
+ * @example
+ * ```typescript
+ * const { attempts, capAttempt } = simulateBackoff(
+ *   { baseDelayMs: 250, maxDelayMs: 1000, jitterFactor: 0.2 },
+ *   { attempts: 6, seed: 42 }
+ * );
+ *
+ * console.log(capAttempt); // 4
+ * console.table(attempts.map(({ attempt, minDelayMs, maxDelayMs }) => ({ attempt, minDelayMs, maxDelayMs })));
+ * ```
+ */
+export const simulateBackoff = (
+  options: BackoffOptions = {},
+  { attempts = 10, runs = 1000, percentiles = [50, 90, 99], seed }: BackoffSimulationOptions = {}
+): BackoffSimulation => {
+  const attemptCount = Math.max(0, Math.floor(attempts));
+  const runCount = Math.max(1, Math.floor(runs));
+  const random = seed === undefined ? (options.random ?? Math.random) : createSeededRandom(seed);
+
+  const lowest = runSchedule(options, attemptCount, () => 0);
+  const highest = runSchedule(options, attemptCount, () => 1);
+
+  // delays[attempt][run] and cumulative[attempt][run]
+  const delays: number[][] = Array.from({ length: attemptCount }, () => []);
+  const cumulative: number[][] = Array.from({ length: attemptCount }, () => []);
+
+  for (let run = 0; run < runCount; run++) {
+    let totalMs = 0;
+
+    runSchedule(options, attemptCount, random).forEach(({ delayMs }, index) => {
+      totalMs += delayMs;
+      delays[index]?.push(delayMs);
+      cumulative[index]?.push(totalMs);
+    });
+  }
+
+  const sum = (values: readonly number[]) => values.reduce((total, value) => total + value, 0);
+  let cumulativeMinDelayMs = 0;
+  let cumulativeMaxDelayMs = 0;
+
+  const schedule = lowest.map((low, index): SimulatedAttempt => {
+    const high = highest[index] ?? low;
+    const sortedDelays = [...(delays[index] ?? [])].sort((a, b) => a - b);
+    const sortedCumulative = [...(cumulative[index] ?? [])].sort((a, b) => a - b);
+
+    cumulativeMinDelayMs += low.delayMs;
+    cumulativeMaxDelayMs += high.delayMs;
+
+    return {
+      attempt: index + 1,
+      minDelayMs: low.delayMs,
+      expectedDelayMs: sum(sortedDelays) / runCount,
+      maxDelayMs: high.delayMs,
+      cumulativeMinDelayMs,
+      cumulativeExpectedDelayMs: sum(sortedCumulative) / runCount,
+      cumulativeMaxDelayMs,
+      wasCapped: low.wasCapped,
+      percentiles: percentiles.map((percentile) => ({
+        percentile,
+        delayMs: percentileOf(sortedDelays, percentile),
+        cumulativeDelayMs: percentileOf(sortedCumulative, percentile)
+      }))
+    };
+  });
+
+  return {
+    attempts: schedule,
+    capAttempt: schedule.find(({ wasCapped }) => wasCapped)?.attempt,
+    runs: runCount
+  };
+};
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AbortError } from "./exponential-backoff-errors";
+import { linkAbortSignals, sleep } from "./exponential-backoff-sleep";
+
+describe("sleep", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve after the delay", async () => {
+    const resolved = vi.fn();
+    void sleep(100).then(resolved);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(resolved).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it("should reject immediately when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort("shutdown");
+
+    const error: unknown = await sleep(100, { signal: controller.signal }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect((error as AbortError).name).toBe("AbortError");
+    expect((error as AbortError).cause).toBe("shutdown");
+  });
+
+  it("should reject and clear the timer when aborted during the wait", async () => {
+    const controller = new AbortController();
+    const promise = sleep(100, { signal: controller.signal });
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should unref the timer when requested", () => {
+    const unref = vi.fn();
+    const mockSetTimeout = vi
+      .spyOn(globalThis, "setTimeout")
+      .mockReturnValue({ unref } as unknown as NodeJS.Timeout);
+
+    void sleep(100, { unref: true });
+    void sleep(100);
+
+    expect(unref).toHaveBeenCalledTimes(1);
+    mockSetTimeout.mockRestore();
+  });
+});
+
+describe("linkAbortSignals", () => {
+  it("should abort when any source aborts", () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const { signal } = linkAbortSignals(first.signal, undefined, second.signal);
+
+    second.abort("second");
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe("second");
+  });
+
+  it("should start aborted when a source is already aborted", () => {
+    const { signal } = linkAbortSignals(AbortSignal.abort("done"));
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe("done");
+  });
+
+  it("should stop following its sources once disposed", () => {
+    const source = new AbortController();
+    const { signal, dispose } = linkAbortSignals(source.signal);
+
+    dispose();
+    source.abort();
+
+    expect(signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Cancellable sleeps for promise-based retry loops.
+ *
+ * A bare `setTimeout` promise cannot be cancelled, so a pending backoff keeps
+ * the process alive during shutdown and then fires anyway. These helpers wire
+ * AbortSignals into the wait and can `unref()` the timer on Node.js so that a
+ * pending backoff never blocks a graceful exit.
+ */
+
+import { AbortError } from "./exponential-backoff-errors";
+
+/**
+ * Options for {@link sleep}.
+ */
+export interface SleepOptions {
+  /**
+   * Cancels the sleep. The promise rejects immediately with an
+   * {@link AbortError} and the timer is cleared.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Whether to `unref()` the timer so it does not keep a Node.js process alive.
+   *
+   * Has no effect in environments where timers have no `unref` method.
+   *
+   * @defaultValue false
+   */
+  unref?: boolean;
+}
+
+/**
+ * Creates the error used to reject when a signal aborts.
+ *
+ * @param signal - The aborted signal
+ * @returns An AbortError with the signal's reason as its cause
+ */
+export const createAbortError = (signal: AbortSignal): AbortError =>
+  new AbortError(undefined, { cause: signal.reason });
+
+/**
+ * Waits for the given delay, unless cancelled first.
+ *
+ * @param delayMs - How long to wait in milliseconds
+ * @param options - Cancellation and timer options
+ * @returns A Promise that resolves after the delay
+ *
+ * @throws {AbortError} When the signal is already aborted or aborts during the wait
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * process.once("SIGTERM", () => controller.abort());
+ *
+ * await sleep(5000, { signal: controller.signal, unref: true });
+ * ```
+ */
+export const sleep = (delayMs: number, { signal, unref = false }: SleepOptions = {}) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(handle);
+      reject(createAbortError(signal as AbortSignal));
+    };
+
+    const handle = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    if (unref && typeof handle === "object" && typeof handle.unref === "function") {
+      handle.unref();
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Combines several optional signals into one that aborts when any of them does.
+ *
+ * Call `dispose()` once the combined signal is no longer needed, so that
+ * long-lived source signals do not accumulate listeners.
+ *
+ * @param signals - The signals to follow; undefined entries are ignored
+ * @returns The combined signal and a function that detaches it from its sources
+ *
+ * @example
+ * ```typescript
+ * const { signal, dispose } = linkAbortSignals(managerSignal, callerSignal);
+ * try {
+ *   await sleep(delayMs, { signal });
+ * } finally {
+ *   dispose();
+ * }
+ * ```
+ */
+export const linkAbortSignals = (
+  ...signals: (AbortSignal | undefined)[]
+): { signal: AbortSignal; dispose: () => void } => {
+  const controller = new AbortController();
+  const sources = signals.filter((signal): signal is AbortSignal => signal !== undefined);
+  const abort = (event: Event) => controller.abort((event.target as AbortSignal | null)?.reason);
+
+  const aborted = sources.find((source) => source.aborted);
+
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, dispose: () => {} };
+  }
+
+  sources.forEach((source) => source.addEventListener("abort", abort, { once: true }));
+
+  return {
+    signal: controller.signal,
+    dispose: () => sources.forEach((source) => source.removeEventListener("abort", abort))
+  };
+};
@@ -0,0 +1,179 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AbortError } from "./exponential-backoff-errors";
+import {
+  InMemoryBackoffStateStore,
+  JsonFileBackoffStateStore,
+  PersistentRetryManager,
+  restoreRetryManager,
+  type BackoffStateStore
+} from "./exponential-backoff-state";
+
+const backoff = { baseDelayMs: 100, maxDelayMs: 10000, jitterFactor: 0 };
+
+describe("InMemoryBackoffStateStore", () => {
+  it("should keep copies of the saved state", async () => {
+    const store = new InMemoryBackoffStateStore();
+    const state = { attemptCount: 2, lastDelayMs: 200, nextEligibleAt: 1000 };
+
+    await store.save("job", state);
+    state.attemptCount = 5;
+
+    expect(await store.load("job")).toEqual({
+      attemptCount: 2,
+      lastDelayMs: 200,
+      nextEligibleAt: 1000
+    });
+
+    await store.delete("job");
+    await store.delete("job");
+    expect(await store.load("job")).toBeUndefined();
+  });
+});
+
+describe("JsonFileBackoffStateStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "backoff-state-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should keep every key in one JSON file", async () => {
+    const filePath = join(directory, "nested", "state.json");
+    const store = new JsonFileBackoffStateStore(filePath);
+
+    expect(await store.load("a")).toBeUndefined();
+
+    await Promise.all([
+      store.save("a", { attemptCount: 1, lastDelayMs: 100, nextEligibleAt: 10 }),
+      store.save("b", { attemptCount: 3, lastDelayMs: 400, nextEligibleAt: 20 }),
+      store.delete("a")
+    ]);
+
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({
+      b: { attemptCount: 3, lastDelayMs: 400, nextEligibleAt: 20 }
+    });
+    expect(await new JsonFileBackoffStateStore(filePath).load("b")).toMatchObject({
+      attemptCount: 3
+    });
+  });
+
+  it("should reject when the file is not JSON", async () => {
+    const filePath = join(directory, "state.json");
+    await writeFile(filePath, "{ not json");
+
+    await expect(new JsonFileBackoffStateStore(filePath).load("a")).rejects.toBeInstanceOf(
+      SyntaxError
+    );
+  });
+
+  it("should let a restarted process resume its backoff", async () => {
+    const filePath = join(directory, "state.json");
+    const before = new PersistentRetryManager({
+      ...backoff,
+      key: "billing-sync",
+      store: new JsonFileBackoffStateStore(filePath)
+    });
+
+    before.scheduleNextRetry();
+    before.scheduleNextRetry();
+    const eligibleAt = before.nextEligibleAt;
+    await before.flush();
+
+    // A new manager and store, as after a restart
+    const after = await restoreRetryManager({
+      ...backoff,
+      key: "billing-sync",
+      store: new JsonFileBackoffStateStore(filePath)
+    });
+
+    expect(after.attemptCount).toBe(2);
+    expect(after.nextEligibleAt).toBe(eligibleAt);
+    expect(after.previewNextDelay().delayMs).toBe(400);
+
+    after.reset();
+    await after.flush();
+
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({});
+    const restarted = await restoreRetryManager({
+      key: "billing-sync",
+      store: new JsonFileBackoffStateStore(filePath)
+    });
+    expect(restarted.attemptCount).toBe(0);
+  });
+});
+
+describe("PersistentRetryManager", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should wait out the rest of the saved wait", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(10000);
+    const store = new InMemoryBackoffStateStore();
+    await store.save("job", { attemptCount: 4, lastDelayMs: 800, nextEligibleAt: 10500 });
+
+    const manager = await restoreRetryManager({ ...backoff, key: "job", store });
+    let eligible = false;
+    const waiting = manager.waitUntilEligible().then(() => (eligible = true));
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(eligible).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await waiting;
+    expect(eligible).toBe(true);
+
+    expect(manager.scheduleNextRetry().delayMs).toBe(1600);
+    expect(manager.key).toBe("job");
+  });
+
+  it("should restore the saved state when a wait is cancelled", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const store = new InMemoryBackoffStateStore();
+    const manager = new PersistentRetryManager({ ...backoff, key: "job", store });
+    const controller = new AbortController();
+
+    const first = manager.waitForNextRetry();
+    await vi.advanceTimersByTimeAsync(100);
+    await first;
+
+    const second = manager.waitForNextRetry({ signal: controller.signal });
+    controller.abort();
+    await expect(second).rejects.toBeInstanceOf(AbortError);
+    await manager.flush();
+
+    expect(manager.attemptCount).toBe(1);
+    expect(manager.nextEligibleAt).toBe(100);
+    expect(await store.load("job")).toEqual({
+      attemptCount: 1,
+      lastDelayMs: 100,
+      nextEligibleAt: 100
+    });
+  });
+
+  it("should keep retrying when the store fails", async () => {
+    const failure = new Error("store down");
+    const store: BackoffStateStore = {
+      load: () => Promise.reject(failure),
+      save: () => Promise.reject(failure),
+      delete: () => Promise.resolve()
+    };
+    const onStoreError = vi.fn();
+
+    const manager = await restoreRetryManager({ ...backoff, key: "job", store, onStoreError });
+
+    expect(manager.attemptCount).toBe(0);
+    expect(manager.scheduleNextRetry().delayMs).toBe(100);
+    await manager.flush();
+    expect(onStoreError).toHaveBeenCalledTimes(2);
+    expect(onStoreError).toHaveBeenCalledWith(failure);
+  });
+});
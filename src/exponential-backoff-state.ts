@@ -0,0 +1,453 @@
+/**
+ * Backoff state that survives process restarts.
+ *
+ * A RetryManager keeps its progress in memory, so a worker that crashes and
+ * restarts begins again at attempt 1 and immediately calls the dependency
+ * that may have caused the crash. PersistentRetryManager writes each key's
+ * attempt count, last delay and next-eligible time to a {@link BackoffStateStore}
+ * and picks them up again after the restart.
+ *
+ * Two stores are included: an in-memory one for tests and single-process
+ * setups, and a JSON file for a worker on one machine. Anything else (Redis, a
+ * database table) only needs the three methods of BackoffStateStore.
+ *
+ * @example
+ * ```typescript
+ * const manager = await restoreRetryManager({
+ *   key: "billing-sync",
+ *   store: new JsonFileBackoffStateStore("/var/lib/worker/backoff.json"),
+ *   maxDelayMs: 300000
+ * });
+ *
+ * await manager.waitUntilEligible();
+ * while (manager.canRetry()) {
+ *   try {
+ *     await syncBilling();
+ *     manager.reset();
+ *     break;
+ *   } catch (error) {
+ *     await manager.waitForNextRetry({ error });
+ *   }
+ * }
+ * ```
+ */
+
+import {
+  RetryManager,
+  type BackoffResult,
+  type RetryManagerOptions,
+  type WaitForNextRetryOptions
+} from "./exponential-backoff";
+import { AbortError } from "./exponential-backoff-errors";
+import { sleep, type SleepOptions } from "./exponential-backoff-sleep";
+
+/**
+ * The backoff progress persisted for one key.
+ */
+export interface BackoffState {
+  /**
+   * The number of retries made so far.
+   */
+  attemptCount: number;
+
+  /**
+   * The delay before the last retry in milliseconds, which the next delay
+   * grows from, or undefined before the first retry.
+   */
+  lastDelayMs: number | undefined;
+
+  /**
+   * When the next attempt may be made, in epoch milliseconds.
+   */
+  nextEligibleAt: number;
+}
+
+/**
+ * Where backoff state is kept between process restarts.
+ *
+ * Implement this interface to keep the state in an external store. Every
+ * method returns a promise, so network-backed stores fit as well as local ones.
+ */
+export interface BackoffStateStore {
+  /**
+   * Reads the state of a key.
+   *
+   * @param key - The key
+   * @returns The state, or undefined when none was saved
+   */
+  load(key: string): Promise<BackoffState | undefined>;
+
+  /**
+   * Writes the state of a key, replacing any previous state.
+   *
+   * @param key - The key
+   * @param state - The state to keep
+   */
+  save(key: string, state: BackoffState): Promise<void>;
+
+  /**
+   * Removes the state of a key. Removing a key without state is not an error.
+   *
+   * @param key - The key
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * A {@link BackoffStateStore} that keeps the state in memory.
+ *
+ * The state lives as long as the store, so it survives a RetryManager being
+ * recreated but not the process; useful in tests and as a reference for
+ * other stores.
+ */
+export class InMemoryBackoffStateStore implements BackoffStateStore {
+  private readonly states = new Map<string, BackoffState>();
+
+  /**
+   * Reads the state of a key.
+   *
+   * @param key - The key
+   * @returns A copy of the state, or undefined when none was saved
+   */
+  public load(key: string): Promise<BackoffState | undefined> {
+    const state = this.states.get(key);
+    return Promise.resolve(state && { ...state });
+  }
+
+  /**
+   * Writes the state of a key.
+   *
+   * @param key - The key
+   * @param state - The state to keep
+   */
+  public save(key: string, state: BackoffState): Promise<void> {
+    this.states.set(key, { ...state });
+    return Promise.resolve();
+  }
+
+  /**
+   * Removes the state of a key.
+   *
+   * @param key - The key
+   */
+  public delete(key: string): Promise<void> {
+    this.states.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * A {@link BackoffStateStore} that keeps the state of every key in one JSON
+ * file, for a worker running on a single machine.
+ *
+ * Writes go to a temporary file that is then renamed over the original, so a
+ * crash mid-write never leaves a truncated file behind. Writes from one store
+ * are serialized; the file must not be shared by several processes. Node's
+ * `fs` module is only loaded when the store is used, so importing this module
+ * in a browser is harmless.
+ */
+export class JsonFileBackoffStateStore implements BackoffStateStore {
+  /**
+   * The path of the JSON file.
+   */
+  public readonly filePath: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a store backed by a JSON file. The file and its directory are
+   * created on the first write.
+   *
+   * @param filePath - The path of the JSON file
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Reads the state of a key.
+   *
+   * @param key - The key
+   * @returns The state, or undefined when the key or the file does not exist
+   *
+   * @throws {SyntaxError} When the file does not contain valid JSON
+   */
+  public async load(key: string): Promise<BackoffState | undefined> {
+    await this.writes;
+    return (await this.readAll()).get(key);
+  }
+
+  /**
+   * Writes the state of a key.
+   *
+   * @param key - The key
+   * @param state - The state to keep
+   */
+  public save(key: string, state: BackoffState): Promise<void> {
+    return this.update((states) => states.set(key, state));
+  }
+
+  /**
+   * Removes the state of a key.
+   *
+   * @param key - The key
+   */
+  public delete(key: string): Promise<void> {
+    return this.update((states) => states.delete(key));
+  }
+
+  /**
+   * Reads every key's state, treating a missing file as empty.
+   */
+  private async readAll(): Promise<Map<string, BackoffState>> {
+    const fs = await import("node:fs/promises");
+
+    try {
+      const contents = await fs.readFile(this.filePath, "utf8");
+      return new Map(Object.entries(JSON.parse(contents) as Record<string, BackoffState>));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return new Map();
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a change to the file once the writes before it have finished.
+   */
+  private update(change: (states: Map<string, BackoffState>) => unknown): Promise<void> {
+    const write = this.writes.then(async () => {
+      const fs = await import("node:fs/promises");
+      const path = await import("node:path");
+      const states = await this.readAll();
+      const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+
+      change(states);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(temporaryPath, JSON.stringify(Object.fromEntries(states), null, 2));
+      await fs.rename(temporaryPath, this.filePath);
+    });
+
+    // A failed write is reported to its caller but must not block later ones
+    this.writes = write.catch(() => {});
+    return write;
+  }
+}
+
+/**
+ * Configuration options for {@link PersistentRetryManager}.
+ */
+export interface PersistentRetryManagerOptions extends RetryManagerOptions {
+  /**
+   * The key the state is saved under, such as a job or queue name.
+   */
+  key: string;
+
+  /**
+   * Where the state is saved.
+   */
+  store: BackoffStateStore;
+
+  /**
+   * Called when the store fails to load or save the state. Persistence is
+   * best effort: a failing store never fails the retry loop itself.
+   *
+   * @defaultValue Errors are ignored
+   */
+  onStoreError?: ((error: unknown) => void) | undefined;
+}
+
+/**
+ * A RetryManager that saves its progress to a {@link BackoffStateStore}, so a
+ * restarted process can resume its backoff where the previous one left off.
+ *
+ * Every scheduled retry saves the state, a cancelled wait restores the state
+ * saved before it, and {@link reset} removes it, so call `reset()` once the
+ * operation succeeds. Use {@link restoreRetryManager} to create a manager
+ * and load the saved state in one step.
+ */
+export class PersistentRetryManager extends RetryManager {
+  private readonly _key: string;
+  private readonly _store: BackoffStateStore;
+  private readonly _onStoreError: (error: unknown) => void;
+  private _nextEligibleAt = 0;
+  private _savedState: BackoffState | undefined;
+  private _stateBeforeRetry: BackoffState | undefined;
+  private _writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a manager that starts from scratch; call {@link load} to pick up
+   * the saved state.
+   *
+   * @param options - The key and store, plus every RetryManager option
+   *
+   * @throws {BackoffConfigError} In strict mode, when the options are invalid
+   */
+  constructor(options: PersistentRetryManagerOptions) {
+    const { key, store, onStoreError, ...managerOptions } = options;
+
+    super(managerOptions);
+    this._key = key;
+    this._store = store;
+    this._onStoreError = onStoreError ?? (() => {});
+  }
+
+  /**
+   * Gets the key the state is saved under.
+   */
+  public get key(): string {
+    return this._key;
+  }
+
+  /**
+   * Gets when the next attempt may be made, in epoch milliseconds. 0 when
+   * there is nothing to wait for.
+   */
+  public get nextEligibleAt(): number {
+    return this._nextEligibleAt;
+  }
+
+  /**
+   * Loads the saved state and resumes the backoff from it.
+   *
+   * @returns The state that was loaded, or undefined when there was none or
+   *          the store failed
+   */
+  public async load(): Promise<BackoffState | undefined> {
+    let state: BackoffState | undefined;
+
+    try {
+      state = await this._store.load(this._key);
+    } catch (error: unknown) {
+      this._onStoreError(error);
+      return undefined;
+    }
+
+    if (state) {
+      this.resume({ attemptCount: state.attemptCount, previousDelayMs: state.lastDelayMs });
+      this._nextEligibleAt = state.nextEligibleAt;
+      this._savedState = state;
+    }
+
+    return state;
+  }
+
+  /**
+   * Waits until the next attempt may be made, which after a restart is
+   * whatever remains of the wait the previous process had scheduled.
+   *
+   * @param options - Cancellation and unref behavior
+   *
+   * @throws {AbortError} When the signal aborts before the wait is over
+   */
+  public waitUntilEligible(options: SleepOptions = {}): Promise<void> {
+    return sleep(Math.max(0, this._nextEligibleAt - Date.now()), options);
+  }
+
+  /**
+   * Schedules the next retry and saves the new state.
+   *
+   * @param error - The error that triggered the retry
+   * @returns The backoff result for the retry that was scheduled
+   */
+  public override scheduleNextRetry(error?: unknown): BackoffResult {
+    const result = super.scheduleNextRetry(error);
+    const state: BackoffState = {
+      attemptCount: this.attemptCount,
+      lastDelayMs: result.delayMs,
+      nextEligibleAt: Date.now() + result.delayMs
+    };
+
+    this._nextEligibleAt = state.nextEligibleAt;
+    this._stateBeforeRetry = this._savedState;
+    this._savedState = state;
+    this.persist(() => this._store.save(this._key, state));
+    return result;
+  }
+
+  /**
+   * Waits for the next retry, restoring the saved state when the wait is
+   * cancelled, since the manager does not count a cancelled retry.
+   *
+   * @param options - Cancellation, unref behavior and the error being retried
+   * @returns The backoff result for the retry
+   *
+   * @throws {AbortError} When either signal aborts before the wait is over
+   * @throws {RetryExhaustedError} When a retry limit prevents another attempt
+   * @throws {RetryBudgetExhaustedError} When the shared retry budget is used up
+   */
+  public override async waitForNextRetry(
+    options: WaitForNextRetryOptions = {}
+  ): Promise<BackoffResult> {
+    try {
+      return await super.waitForNextRetry(options);
+    } catch (error: unknown) {
+      // An abort before anything was scheduled leaves nothing to restore
+      if (
+        error instanceof AbortError &&
+        (this._savedState?.attemptCount ?? 0) !== this.attemptCount
+      ) {
+        this.restoreSavedState(this._stateBeforeRetry);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Resets the manager and removes the saved state.
+   */
+  public override reset(): void {
+    super.reset();
+    this.restoreSavedState(undefined);
+  }
+
+  /**
+   * Waits for the state changes made so far to reach the store.
+   */
+  public flush(): Promise<void> {
+    return this._writes;
+  }
+
+  /**
+   * Goes back to an earlier saved state, or to no state at all.
+   */
+  private restoreSavedState(state: BackoffState | undefined): void {
+    this._savedState = state;
+    this._stateBeforeRetry = undefined;
+    this._nextEligibleAt = state?.nextEligibleAt ?? 0;
+    this.persist(() =>
+      state ? this._store.save(this._key, state) : this._store.delete(this._key)
+    );
+  }
+
+  /**
+   * Queues a store write behind the previous ones.
+   */
+  private persist(write: () => Promise<void>): void {
+    this._writes = this._writes.then(write).catch((error: unknown) => this._onStoreError(error));
+  }
+}
+
+/**
+ * Creates a {@link PersistentRetryManager} and resumes it from the saved state.
+ *
+ * @param options - The key and store, plus every RetryManager option
+ * @returns The manager, with the saved attempt count, delay and next-eligible
+ *          time restored
+ *
+ * @example
+ * ```typescript
+ * const manager = await restoreRetryManager({ key: "import", store });
+ * console.log(`resuming at attempt ${manager.attemptCount}`);
+ * await manager.waitUntilEligible();
+ * ```
+ */
+export const restoreRetryManager = async (
+  options: PersistentRetryManagerOptions
+): Promise<PersistentRetryManager> => {
+  const manager = new PersistentRetryManager(options);
+  await manager.load();
+  return manager;
+};
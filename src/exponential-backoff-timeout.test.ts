@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { resolveAttemptTimeoutMs } from "./exponential-backoff-timeout";
+
+describe("resolveAttemptTimeoutMs", () => {
+  it("should return fixed timeouts unchanged", () => {
+    expect(resolveAttemptTimeoutMs(500, 1)).toBe(500);
+    expect(resolveAttemptTimeoutMs(500, 5)).toBe(500);
+  });
+
+  it("should grow timeouts along a curve", () => {
+    const curve = { initialMs: 1000, maxMs: 5000 };
+
+    expect([1, 2, 3, 4].map((attempt) => resolveAttemptTimeoutMs(curve, attempt))).toEqual([
+      1000, 2000, 4000, 5000
+    ]);
+    expect(resolveAttemptTimeoutMs({ initialMs: 100, strategy: "linear" }, 3)).toBe(300);
+  });
+
+  it("should cut the timeout short at the deadline", () => {
+    expect(resolveAttemptTimeoutMs(1000, 1, 250)).toBe(250);
+    expect(resolveAttemptTimeoutMs(1000, 1, -10)).toBe(0);
+    expect(resolveAttemptTimeoutMs({ initialMs: 1000 }, 3, 2500)).toBe(2500);
+  });
+
+  it("should not time out without a configured timeout", () => {
+    expect(resolveAttemptTimeoutMs(undefined, 1, 250)).toBeUndefined();
+    expect(resolveAttemptTimeoutMs(Infinity, 1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Per-attempt timeouts for retry loops.
+ *
+ * A hung request never errors, so a retry loop waiting for an error never
+ * retries it. An attempt timeout turns the hang into an AttemptTimeoutError,
+ * which is retried like any other retryable error. The timeout can grow from
+ * attempt to attempt along its own backoff curve, for dependencies that are
+ * slow rather than down, and it never runs past the retry loop's deadline.
+ */
+
+import { calculateExponentialBackoff, type BackoffStrategy } from "./exponential-backoff";
+
+/**
+ * A timeout that grows from attempt to attempt.
+ *
+ * The timeout for attempt n is the strategy's delay for n, starting from
+ * `initialMs` and capped at `maxMs`, without jitter.
+ *
+ * @example
+ * ```typescript
+ * // 1s, 2s, 4s, then 5s for every later attempt
+ * const curve: AttemptTimeoutCurve = { initialMs: 1000, maxMs: 5000 };
+ * ```
+ */
+export interface AttemptTimeoutCurve {
+  /**
+   * The timeout of the initial attempt, in milliseconds.
+   */
+  initialMs: number;
+
+  /**
+   * The longest timeout any attempt is given, in milliseconds.
+   *
+   * @defaultValue Infinity
+   */
+  maxMs?: number;
+
+  /**
+   * How the timeout grows.
+   *
+   * @defaultValue "exponential"
+   */
+  strategy?: BackoffStrategy;
+}
+
+/**
+ * A fixed timeout in milliseconds, or a timeout that grows along a curve.
+ */
+export type AttemptTimeout = number | AttemptTimeoutCurve;
+
+/**
+ * Calculates the timeout for one attempt.
+ *
+ * @param timeout - The configured attempt timeout, if any
+ * @param attempt - The attempt number, where 1 is the initial call
+ * @param remainingMs - The time left before the retry loop's deadline; the
+ *                      timeout is cut short so the attempt ends by then
+ * @returns The timeout in milliseconds, or undefined when attempts may run
+ *          without a limit
+ *
+ * @example
+ * ```typescript
+ * resolveAttemptTimeoutMs({ initialMs: 1000 }, 3); // 4000
+ * resolveAttemptTimeoutMs({ initialMs: 1000 }, 3, 2500); // 2500
+ * resolveAttemptTimeoutMs(undefined, 3, 2500); // undefined
+ * ```
+ */
+export const resolveAttemptTimeoutMs = (
+  timeout: AttemptTimeout | undefined,
+  attempt: number,
+  remainingMs = Infinity
+): number | undefined => {
+  if (timeout === undefined) {
+    return undefined;
+  }
+
+  const timeoutMs =
+    typeof timeout === "number"
+      ? timeout
+      : calculateExponentialBackoff(attempt, {
+          baseDelayMs: timeout.initialMs,
+          maxDelayMs: timeout.maxMs ?? Infinity,
+          jitterMode: "none",
+          strategy: timeout.strategy ?? "exponential"
+        }).delayMs;
+  const cutMs = Math.max(0, Math.min(timeoutMs, remainingMs));
+
+  return Number.isFinite(cutMs) ? cutMs : undefined;
+};
@@ -8,16 +8,54 @@
  * while being completely backward compatible with your existing RxJS-based retry logic.
  */
 
-import { Observable, timer } from "rxjs";
-import { calculateExponentialBackoff, type BackoffOptions } from "./exponential-backoff";
+import { asyncScheduler, Observable, Subject, throwError, timer, type SchedulerLike } from "rxjs";
+import {
+  calculateExponentialBackoff,
+  getRetryLimitReason,
+  type BackoffContext,
+  type BackoffOptions,
+  type BackoffResult,
+  type RetryLimits
+} from "./exponential-backoff";
+import type { RetryBudget } from "./exponential-backoff-budget";
+import { isRetryableError, type ErrorClassifier } from "./exponential-backoff-classifiers";
+import { assertValidBackoffOptions } from "./exponential-backoff-config";
+import { applyRetryProfile, type RetryProfileOptions } from "./exponential-backoff-profiles";
+import {
+  RetryBudgetExhaustedError,
+  RetryExhaustedError,
+  type RetryProgress
+} from "./exponential-backoff-errors";
+import {
+  createConsoleRetryLogger,
+  logRetryEvent,
+  type RetryEvent,
+  type RetryEventInit,
+  type RetryEventOptions
+} from "./exponential-backoff-events";
+import type { RetryAfterExtractor, RetryAfterMode } from "./exponential-backoff-hints";
+import {
+  BackoffPolicyTracker,
+  getPolicyBackoffOptions,
+  resolveBackoffPolicy,
+  type ErrorBackoffPolicy
+} from "./exponential-backoff-policies";
 
 /**
  * Configuration options for the RxJS exponential backoff timer.
  *
  * These options provide fine-grained control over the backoff behavior
  * while maintaining simplicity for common use cases.
+ *
+ * The {@link RetryLimits} apply to each retry sequence, which starts when a
+ * timer is requested for retry count 1. Elapsed time is measured from that
+ * first retry, so it does not include the duration of the initial attempt.
  */
-export interface BackoffTimerOptions extends BackoffOptions {
+export interface BackoffTimerOptions
+  extends BackoffOptions,
+    RetryLimits,
+    RetryEventOptions,
+    RetryProfileOptions {
   /**
    * Whether to emit the delay value before starting the timer.
    *
@@ -40,13 +78,136 @@ export interface BackoffTimerOptions extends BackoffOptions {
    * and how much jitter was applied.
    *
    * This is useful during development but should typically be disabled
-   * in production for performance.
+   * in production for performance. Ignored when a `logger` is supplied.
    *
    * @defaultValue false
    */
   enableDebugLogs?: boolean;
+
+  /**
+   * Reads a server-requested delay from the error that triggered the retry.
+   *
+   * Use `retryAfterFromHeaders` for the standard `Retry-After` and
+   * `X-RateLimit-Reset` headers, or supply your own extractor for APIs that
+   * report the delay in the response body. The hint is clamped to `maxDelayMs`
+   * and recorded on `BackoffResult.retryAfterMs`.
+   *
+   * @defaultValue No hints are read
+   */
+  retryAfter?: RetryAfterExtractor;
+
+  /**
+   * How a server-requested delay is combined with the computed backoff.
+   *
+   * - `floor`: wait for the longer of the two
+   * - `override`: wait for exactly the server's delay
+   *
+   * @defaultValue "floor"
+   */
+  retryAfterMode?: RetryAfterMode;
+
+  /**
+   * A retry budget shared with other retry loops calling the same dependency.
+   *
+   * When the budget is used up, the timer errors with a
+   * RetryBudgetExhaustedError instead of waiting. Timers cannot see
+   * successful requests, so record each request with `recordRequest()` (the
+   * retryWithBackoff operator does this for you).
+   */
+  retryBudget?: RetryBudget | undefined;
+
+  /**
+   * Decides which errors are retried. When the classifier aborts on an
+   * error, the timer re-throws that error instead of waiting. Errors the
+   * classifier has no opinion on are retried.
+   *
+   * @defaultValue Retry every error
+   */
+  classifier?: ErrorClassifier | undefined;
+
+  /**
+   * Backoff policies for particular classes of errors, resolved from the
+   * error passed to each timer. Each class keeps its own attempt count within
+   * the retry sequence; errors matching no policy use the timer's own options.
+   *
+   * @defaultValue No policies
+   */
+  policies?: readonly ErrorBackoffPolicy[];
+
+  /**
+   * The RxJS scheduler used for backoff timers and for measuring elapsed time.
+   *
+   * Pass a `TestScheduler` to run a whole retry timeline in virtual time, or
+   * `animationFrameScheduler`/`asapScheduler` in UI code.
+   *
+   * @defaultValue asyncScheduler
+   */
+  scheduler?: SchedulerLike;
+
+  /**
+   * Whether the constructor rejects invalid options, such as a `maxDelayMs`
+   * below `baseDelayMs`, with a BackoffConfigError instead of clamping them
+   * during the calculation.
+   *
+   * @defaultValue false
+   */
+  strict?: boolean;
 }
 
+/**
+ * The state of one retry sequence: when its first retry was calculated, how
+ * long it has waited so far, as counted by `maxElapsedMs` and
+ * `maxTotalDelayMs`, the last delay, which decorrelated jitter grows from, and
+ * the retries of each error class with a policy.
+ *
+ * Streams that retry at the same time each need their own sequence, or one
+ * stream's waits count against another's limits. Start one with
+ * {@link BackoffTimerFactory.startSequence} and pass it to every timer of
+ * that stream; the factory keeps it up to date.
+ */
+export interface BackoffSequence {
+  /**
+   * When the sequence's first retry was calculated, read from the scheduler,
+   * or undefined before it.
+   */
+  startedAt: number | undefined;
+
+  /**
+   * The sum of the delays calculated so far in milliseconds.
+   */
+  totalDelayMs: number;
+
+  /**
+   * The delay of the last retry in milliseconds, or undefined before it.
+   */
+  previousDelayMs: number | undefined;
+
+  /**
+   * The retries and last delay of each error class with a policy.
+   */
+  readonly policyTracker: BackoffPolicyTracker;
+}
+
+/**
+ * Creates the state of a sequence that has not retried yet.
+ */
+const createBackoffSequence = (): BackoffSequence => ({
+  startedAt: undefined,
+  totalDelayMs: 0,
+  previousDelayMs: undefined,
+  policyTracker: new BackoffPolicyTracker()
+});
+
+/**
+ * The default extractor, which never finds a hint.
+ */
+const noRetryAfter: RetryAfterExtractor = () => undefined;
+
+/**
+ * The logger used when `enableDebugLogs` is set and no logger is supplied.
+ */
+const consoleLogger = createConsoleRetryLogger("exponential-backoff-timer");
+
 /**
  * Factory class for creating RxJS timer observables with exponential backoff.
  *
@@ -63,7 +224,8 @@ export interface BackoffTimerOptions extends BackoffOptions {
  *   jitterFactor: 0.2
  * });
  *
- * // Use in retry logic (drop-in replacement)
+ * // Use in retry logic (drop-in replacement); retryWithBackoff() wraps this
+ * // whole recipe in a single operator
  * return this.http.get('/api/data').pipe(
  *   retryWhen(errors => errors.pipe(
  *     scan((retryCount) => retryCount + 1, 0),
@@ -78,6 +240,17 @@ export interface BackoffTimerOptions extends BackoffOptions {
  */
 export class BackoffTimerFactory {
   private readonly options: Required<BackoffTimerOptions>;
+  private readonly sequence = createBackoffSequence();
+  private readonly events = new Subject<RetryEvent>();
+
+  /**
+   * Emits every retry lifecycle event published by this factory.
+   *
+   * The factory itself reports `retry-scheduled`, and `gave-up` when a limit
+   * or the budget refuses a retry. The retryWithBackoff() operator reports
+   * the rest of the lifecycle through {@link emit}.
+   */
+  public readonly events$: Observable<RetryEvent> = this.events.asObservable();
 
   /**
    * Creates a new RxJS backoff timer factory with the specified default options.
@@ -94,15 +267,214 @@ export class BackoffTimerFactory {
    *   enableDebugLogs: true
    * });
    * ```
+   *
+   * @throws {BackoffConfigError} In strict mode, when the options are invalid
+   * @throws {RetryProfileError} When the `profile` cannot be resolved
    */
-  constructor(options: BackoffTimerOptions = {}) {
+  constructor(timerOptions: BackoffTimerOptions = {}) {
+    const options = applyRetryProfile(timerOptions);
+
     this.options = {
       baseDelayMs: options.baseDelayMs ?? 1000,
       maxDelayMs: options.maxDelayMs ?? 5000,
       jitterFactor: options.jitterFactor ?? 0.2,
+      jitterMode: options.jitterMode ?? "symmetric",
+      strategy: options.strategy ?? "exponential",
+      random: options.random ?? Math.random,
       emitDelay: options.emitDelay ?? false,
-      enableDebugLogs: options.enableDebugLogs ?? false
+      enableDebugLogs: options.enableDebugLogs ?? false,
+      retryAfter: options.retryAfter ?? noRetryAfter,
+      retryAfterMode: options.retryAfterMode ?? "floor",
+      maxAttempts: options.maxAttempts ?? Infinity,
+      maxElapsedMs: options.maxElapsedMs ?? Infinity,
+      maxTotalDelayMs: options.maxTotalDelayMs ?? Infinity,
+      retryBudget: options.retryBudget,
+      classifier: options.classifier,
+      policies: options.policies ?? [],
+      scheduler: options.scheduler ?? asyncScheduler,
+      strict: options.strict ?? false,
+      profile: options.profile,
+      profiles: options.profiles,
+      onEvent: options.onEvent,
+      logger: options.logger
+    };
+
+    // Validate the resolved options, defaults included
+    if (this.options.strict) {
+      assertValidBackoffOptions(this.options);
+    }
+  }
+
+  /**
+   * Gets the time in milliseconds since the factory's own retry sequence
+   * started, as measured for `maxElapsedMs`, or 0 before the first retry.
+   */
+  public get elapsedMs(): number {
+    return this.getElapsedMs(this.sequence);
+  }
+
+  /**
+   * Starts a retry sequence for one stream.
+   *
+   * Timers created without a sequence share the factory's own, which suits a
+   * factory used by a single stream. A factory shared by streams that retry
+   * at the same time needs a sequence per stream.
+   *
+   * @returns The state of a sequence that has not retried yet
+   *
+   * @example
+   * ```typescript
+   * const sequence = factory.startSequence();
+   * return errors.pipe(
+   *   mergeMap((error, index) => factory.create(index + 1, undefined, error, sequence))
+   * );
+   * ```
+   */
+  public startSequence(): BackoffSequence {
+    return createBackoffSequence();
+  }
+
+  /**
+   * Gets the time in milliseconds since a retry sequence started, as
+   * measured for `maxElapsedMs`, or 0 before its first retry.
+   *
+   * @param sequence - The sequence, as returned by {@link startSequence}
+   */
+  public getElapsedMs(sequence: BackoffSequence): number {
+    return sequence.startedAt === undefined ? 0 : this.options.scheduler.now() - sequence.startedAt;
+  }
+
+  /**
+   * Publishes a retry lifecycle event to `events$`, `onEvent` and the logger.
+   *
+   * @param event - The event to publish; the timestamp is read from the scheduler
+   * @param overrideOptions - Optional configuration to override factory defaults
+   */
+  public emit(event: RetryEventInit, overrideOptions?: Partial<BackoffTimerOptions>): void {
+    const options = { ...this.options, ...overrideOptions };
+    const stamped = { ...event, timestamp: options.scheduler.now() } as RetryEvent;
+    const logger = options.logger ?? (options.enableDebugLogs ? consoleLogger : undefined);
+
+    options.onEvent?.(stamped);
+
+    if (logger) {
+      logRetryEvent(logger, stamped);
+    }
+
+    this.events.next(stamped);
+  }
+
+  /**
+   * Calculates the backoff delay for a retry attempt without creating a timer.
+   *
+   * This is the calculation half of {@link create}: it applies the factory
+   * defaults, enforces the retry limits, publishes a `retry-scheduled` or
+   * `gave-up` event (which also writes the debug log), and remembers
+   * the delay so decorrelated jitter can grow from it. A retry count of 1 or
+   * less starts the sequence afresh.
+   *
+   * @param retryCount - The current retry attempt number (1-based).
+   * @param overrideOptions - Optional configuration to override factory defaults.
+   * @param error - The error that triggered the retry, used to read server hints.
+   * @param sequence - The retry sequence the retry belongs to, from
+   *                   {@link startSequence}. Defaults to the factory's own.
+   *
+   * @returns The calculated backoff result.
+   *
+   * @throws {RetryExhaustedError} When a retry limit prevents this retry. The
+   *         triggering error is attached as `cause`.
+   * @throws {RetryBudgetExhaustedError} When the shared retry budget is used up.
+   */
+  public calculate(
+    retryCount: number,
+    overrideOptions?: Partial<BackoffTimerOptions>,
+    error?: unknown,
+    sequence: BackoffSequence = this.sequence
+  ): BackoffResult {
+    const options = { ...this.options, ...overrideOptions };
+
+    if (retryCount <= 1 || sequence.startedAt === undefined) {
+      sequence.previousDelayMs = undefined;
+      sequence.startedAt = options.scheduler.now();
+      sequence.totalDelayMs = 0;
+      sequence.policyTracker.reset();
+    }
+
+    const policy = resolveBackoffPolicy(options.policies, error);
+    const classAttempts = sequence.policyTracker.attemptsFor(policy, Math.max(0, retryCount - 1));
+    const previousDelayMs = policy
+      ? sequence.policyTracker.previousDelayFor(policy)
+      : sequence.previousDelayMs;
+    const context: BackoffContext = { retryAfterMode: options.retryAfterMode };
+
+    if (previousDelayMs !== undefined) {
+      context.previousDelayMs = previousDelayMs;
+    }
+
+    const retryAfterMs = error === undefined ? undefined : options.retryAfter(error);
+
+    if (retryAfterMs !== undefined) {
+      context.retryAfterMs = retryAfterMs;
+    }
+
+    const backoffResult = calculateExponentialBackoff(
+      // Without policies this is just retryCount
+      classAttempts + 1,
+      {
+        baseDelayMs: options.baseDelayMs,
+        maxDelayMs: options.maxDelayMs,
+        jitterFactor: options.jitterFactor,
+        jitterMode: options.jitterMode,
+        strategy: options.strategy,
+        random: options.random,
+        ...(policy && getPolicyBackoffOptions(policy))
+      },
+      context
+    );
+
+    const progress: RetryProgress = {
+      attempts: Math.max(0, retryCount - 1),
+      elapsedMs: options.scheduler.now() - sequence.startedAt,
+      totalDelayMs: sequence.totalDelayMs
     };
+    const reason =
+      classAttempts >= (policy?.maxAttempts ?? Infinity)
+        ? "maxAttempts"
+        : getRetryLimitReason(options, progress, backoffResult.delayMs);
+
+    if (reason) {
+      const exhausted = new RetryExhaustedError(reason, progress, { cause: error });
+      this.emit(
+        { type: "gave-up", attempt: retryCount, error: exhausted, reason: "exhausted" },
+        overrideOptions
+      );
+      throw exhausted;
+    }
+
+    if (options.retryBudget && !options.retryBudget.tryAcquire()) {
+      const exhausted = new RetryBudgetExhaustedError({ cause: error });
+      this.emit(
+        { type: "gave-up", attempt: retryCount, error: exhausted, reason: "budget-exhausted" },
+        overrideOptions
+      );
+      throw exhausted;
+    }
+
+    sequence.totalDelayMs += backoffResult.delayMs;
+
+    if (policy) {
+      sequence.policyTracker.record(policy, backoffResult.delayMs);
+    } else {
+      sequence.previousDelayMs = backoffResult.delayMs;
+    }
+
+    // Report the retry, which also writes the optional debug log.
+    this.emit(
+      { type: "retry-scheduled", attempt: retryCount, error, backoff: backoffResult },
+      overrideOptions
+    );
+
+    return backoffResult;
   }
 
   /**
@@ -113,29 +485,42 @@ export class BackoffTimerFactory {
    * that emits after the calculated delay period.
    *
    * @param retryCount - The current retry attempt number (1-based).
-   * @param overrideOptions - Optional configuration to override factory defaults.
+   * @param overrideOptions - Optional configuration to override factory defaults,
+   *                          including the `scheduler` the timer runs on.
+   * @param error - The error that triggered the retry, used to read server hints.
+   * @param sequence - The retry sequence the retry belongs to, from
+   *                   {@link startSequence}. Defaults to the factory's own.
    *
-   * @returns Observable that emits 0 after the calculated delay.
+   * @returns Observable that emits 0 after the calculated delay, errors with
+   *          the triggering error when the `classifier` aborts on it, or errors
+   *          with a RetryExhaustedError or RetryBudgetExhaustedError when this
+   *          retry is not allowed.
    */
   public create<E = unknown>(
     retryCount: number,
-    overrideOptions?: Partial<BackoffTimerOptions>
+    overrideOptions?: Partial<BackoffTimerOptions>,
+    error?: unknown,
+    sequence: BackoffSequence = this.sequence
   ): Observable<number> {
     const options = { ...this.options, ...overrideOptions };
+    let backoffResult: BackoffResult;
 
-    const backoffResult = calculateExponentialBackoff(retryCount, {
-      baseDelayMs: options.baseDelayMs,
-      maxDelayMs: options.maxDelayMs,
-      jitterFactor: options.jitterFactor
-    });
+    if (error !== undefined && !isRetryableError(error, options.classifier)) {
+      this.emit(
+        { type: "gave-up", attempt: retryCount, error, reason: "non-retryable" },
+        overrideOptions
+      );
+      return throwError(() => error);
+    }
 
-    // Optional debug logging.
-    if (options.enableDebugLogs) {
-      console.debug(`[exponential-backoff-timer] ${backoffResult.toString()}`);
+    try {
+      backoffResult = this.calculate(retryCount, overrideOptions, error, sequence);
+    } catch (exhausted: unknown) {
+      return throwError(() => exhausted);
     }
 
     // Create the timer observable.
-    const observable = timer(backoffResult.delayMs);
+    const observable = timer(backoffResult.delayMs, options.scheduler);
 
     // Optionally emit the delay value before the timer completes.
     if (options.emitDelay) {
@@ -173,9 +558,21 @@ export class BackoffTimerFactory {
  *
  * This is the modern, recommended approach for RxJS v8+ that replaces the deprecated
  * retryWhen operator. It returns a function that can be passed directly to retry()'s
- * delay option for exponential backoff behavior.
+ * delay option for exponential backoff behavior. For retry predicates and
+ * callbacks on top of the delay, use the retryWithBackoff() operator instead.
+ *
+ * Pass a seeded `random` source (see `createSeededRandom`) to make the delay
+ * sequence reproducible across runs.
+ *
+ * The returned function tracks one retry sequence, which the retry limits,
+ * decorrelated jitter and policies are counted against, and `retry()` does
+ * not tell it which stream is calling. Give every stream its own function
+ * by creating it inside `defer()`, or use retryWithBackoff(), which does so
+ * for each subscription. Sharing one function is only safe without those
+ * options.
  *
  * @param options - Optional backoff configuration
+ * @param scheduler - Optional scheduler for the timers, overriding `options.scheduler`
  * @returns Function that calculates delay based on retry metadata
  *
  * @example
@@ -191,15 +588,43 @@ export class BackoffTimerFactory {
  *     })
  *   })
  * );
+ *
+ * // Virtual time in marble tests
+ * testScheduler.run(() => {
+ *   const delay = createBackoffDelayFunction({ jitterFactor: 0 }, testScheduler);
+ *   // ...
+ * });
+ *
+ * // Same limits as RetryManager: errors with RetryExhaustedError instead.
+ * // The limits count per stream, so each subscription gets its own function
+ * return defer(() =>
+ *   this.http.get('/api/data').pipe(
+ *     retry({ delay: createBackoffDelayFunction({ maxAttempts: 5, maxElapsedMs: 30000 }) })
+ *   )
+ * );
+ *
+ * // A named profile, re-read at the start of every retry sequence
+ * return this.http.get('/api/data').pipe(
+ *   retry({ delay: createBackoffDelayFunction({ profile: "background" }) })
+ * );
  * ```
  */
 export function createBackoffDelayFunction<E = unknown>(
-  options?: BackoffTimerOptions
+  options?: BackoffTimerOptions,
+  scheduler?: SchedulerLike
 ): (error: E, retryCount: number) => Observable<number> {
-  const factory = new BackoffTimerFactory(options);
+  const createFactory = () =>
+    new BackoffTimerFactory(scheduler ? { ...options, scheduler } : options);
+  let factory = createFactory();
+  const sequence = factory.startSequence();
+
+  return (error: E, retryCount: number) => {
+    // Pick up profile overrides made since the previous retry sequence
+    if (options?.profile !== undefined && retryCount <= 1) {
+      factory = createFactory();
+    }
 
-  return (_error: E, retryCount: number) => {
-    return factory.create(retryCount);
+    return factory.create(retryCount, undefined, error, sequence);
   };
 }
 
@@ -211,6 +636,7 @@ export function createBackoffDelayFunction<E = unknown>(
  *
  * @param retryCount - The current retry attempt number (1-based)
  * @param options - Optional backoff configuration
+ * @param scheduler - Optional scheduler for the timer, overriding `options.scheduler`
  * @returns Observable that emits 0 after the calculated exponential backoff delay
  *
  * @example
@@ -229,9 +655,10 @@ export function createBackoffDelayFunction<E = unknown>(
  */
 export function createBackoffTimer<E = unknown>(
   retryCount: number,
-  options?: BackoffTimerOptions
+  options?: BackoffTimerOptions,
+  scheduler?: SchedulerLike
 ): Observable<number> {
-  const factory = new BackoffTimerFactory(options);
+  const factory = new BackoffTimerFactory(scheduler ? { ...options, scheduler } : options);
   return factory.create<E>(retryCount);
 }
 
@@ -239,7 +666,9 @@ export function createBackoffTimer<E = unknown>(
  * Development-friendly delay function with debug logging enabled.
  *
  * This function is identical to the legacy-compatible version but includes
- * debug logging to help you monitor retry behavior during development.
+ * debug logging to help you monitor retry behavior during development. Every
+ * call creates its own timer, so it keeps no state between retries and can be
+ * shared by any number of streams.
  *
  * @example
  * ```typescript
@@ -253,10 +682,10 @@ export function createBackoffTimer<E = unknown>(
  * // Console output: "[exponential-backoff-timer] Retry 3: 4123ms (raw: 4000ms, jitter: +123ms)"
  * ```
  */
-export const debugBackoffDelay = createBackoffDelayFunction({
-  baseDelayMs: 1000,
-  maxDelayMs: 5000,
-  jitterFactor: 0.2,
-  emitDelay: false,
-  enableDebugLogs: true
-});
+export const debugBackoffDelay = (_error: unknown, retryCount: number): Observable<number> =>
+  createBackoffTimer(retryCount, {
+    baseDelayMs: 1000,
+    maxDelayMs: 5000,
+    jitterFactor: 0.2,
+    enableDebugLogs: true
+  });
@@ -1,4 +1,4 @@
-import { of, throwError, timer } from "rxjs";
+import { defer, lastValueFrom, of, throwError, timer } from "rxjs";
 import { map, mergeMap, retry, toArray } from "rxjs/operators";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
@@ -6,13 +6,542 @@ import {
   HttpRetryService,
   type CustomHttpRequestError
 } from "./exponential-backoff-example";
+import {
+  calculateExponentialBackoff,
+  calculateStrategyDelay,
+  createSeededRandom,
+  getRetryLimitReason,
+  RetryManager,
+  type BackoffOptions
+} from "./exponential-backoff";
+import { AbortError, RetryExhaustedError } from "./exponential-backoff-errors";
 import {
   BackoffTimerFactory,
   createBackoffDelayFunction,
   createBackoffTimer,
   debugBackoffDelay,
+  type BackoffSequence,
   type BackoffTimerOptions
 } from "./exponential-backoff-timer";
+import { createTestScheduler } from "./test-helpers";
+
+describe("calculateExponentialBackoff strategies", () => {
+  const deterministic: BackoffOptions = {
+    baseDelayMs: 100,
+    maxDelayMs: 100000,
+    jitterFactor: 0
+  };
+
+  const delaysFor = (options: BackoffOptions, attempts = 6) =>
+    Array.from(
+      { length: attempts },
+      (_, i) => calculateExponentialBackoff(i + 1, { ...deterministic, ...options }).delayMs
+    );
+
+  it("should double by default", () => {
+    expect(delaysFor({})).toEqual([100, 200, 400, 800, 1600, 3200]);
+  });
+
+  it("should support a configurable exponential multiplier", () => {
+    expect(delaysFor({ strategy: { type: "exponential", multiplier: 1.5 } }, 4)).toEqual([
+      100, 150, 225, 337.5
+    ]);
+  });
+
+  it("should support linear growth", () => {
+    expect(delaysFor({ strategy: "linear" }, 4)).toEqual([100, 200, 300, 400]);
+    expect(delaysFor({ strategy: { type: "linear", incrementMs: 25 } }, 4)).toEqual([
+      100, 125, 150, 175
+    ]);
+  });
+
+  it("should support fibonacci growth", () => {
+    expect(delaysFor({ strategy: "fibonacci" })).toEqual([100, 100, 200, 300, 500, 800]);
+  });
+
+  it("should support polynomial growth", () => {
+    expect(delaysFor({ strategy: "polynomial" }, 4)).toEqual([100, 400, 900, 1600]);
+    expect(delaysFor({ strategy: { type: "polynomial", exponent: 3 } }, 3)).toEqual([
+      100, 800, 2700
+    ]);
+  });
+
+  it("should support constant delays", () => {
+    expect(delaysFor({ strategy: "constant" }, 3)).toEqual([100, 100, 100]);
+  });
+
+  it("should support custom strategy functions", () => {
+    const strategy = vi.fn((attempt: number, { baseDelayMs }: Required<BackoffOptions>) => {
+      return baseDelayMs * attempt * 10;
+    });
+
+    const result = calculateExponentialBackoff(3, { ...deterministic, strategy });
+
+    expect(result.delayMs).toBe(3000);
+    expect(result.strategy).toBe("custom");
+    expect(strategy).toHaveBeenCalledWith(3, expect.objectContaining({ baseDelayMs: 100 }));
+  });
+
+  it("should treat invalid custom strategy results as 0", () => {
+    const resolved = new RetryManager(deterministic).options;
+
+    expect(calculateStrategyDelay(1, { ...resolved, strategy: () => NaN })).toBe(0);
+    expect(calculateStrategyDelay(1, { ...resolved, strategy: () => -50 })).toBe(0);
+  });
+
+  it("should apply the cap to every strategy", () => {
+    const result = calculateExponentialBackoff(10, {
+      ...deterministic,
+      maxDelayMs: 500,
+      strategy: "fibonacci"
+    });
+
+    expect(result.delayMs).toBe(500);
+    expect(result.wasCapped).toBe(true);
+  });
+
+  it("should describe non-default strategies in toString", () => {
+    const result = calculateExponentialBackoff(2, { ...deterministic, strategy: "linear" });
+
+    expect(result.strategy).toBe("linear");
+    expect(result.toString()).toBe("Retry 2: 200ms (raw: 200ms, linear, no jitter)");
+  });
+
+  it("should be honoured by RetryManager", () => {
+    const manager = new RetryManager({ ...deterministic, strategy: "constant" });
+
+    expect(manager.options.strategy).toBe("constant");
+    expect(manager.previewNextDelay().delayMs).toBe(100);
+  });
+});
+
+describe("calculateExponentialBackoff jitter modes", () => {
+  const options: BackoffOptions = { baseDelayMs: 100, maxDelayMs: 10000, jitterFactor: 0.5 };
+  let mockRandom: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    mockRandom = vi.spyOn(Math, "random").mockReturnValue(0.25);
+  });
+
+  afterEach(() => {
+    mockRandom.mockRestore();
+  });
+
+  it("should default to symmetric jitter", () => {
+    const result = calculateExponentialBackoff(3, options);
+
+    // 400 + (0.25 * 2 - 1) * 400 * 0.5
+    expect(result.delayMs).toBe(300);
+    expect(result.jitterMode).toBe("symmetric");
+    expect(result.toString()).toBe("Retry 3: 300ms (raw: 400ms, jitter: -100ms)");
+  });
+
+  it("should support full jitter", () => {
+    const result = calculateExponentialBackoff(3, { ...options, jitterMode: "full" });
+
+    expect(result.delayMs).toBe(100);
+    expect(result.jitterOffsetMs).toBe(-300);
+    expect(result.toString()).toBe("Retry 3: 100ms (raw: 400ms, full jitter: -300ms)");
+  });
+
+  it("should support equal jitter", () => {
+    const result = calculateExponentialBackoff(3, { ...options, jitterMode: "equal" });
+
+    expect(result.delayMs).toBe(250);
+    expect(result.jitterMode).toBe("equal");
+  });
+
+  it("should support decorrelated jitter from the previous delay", () => {
+    const first = calculateExponentialBackoff(1, { ...options, jitterMode: "decorrelated" });
+    const second = calculateExponentialBackoff(
+      2,
+      { ...options, jitterMode: "decorrelated" },
+      { previousDelayMs: 1000 }
+    );
+
+    // random(100, max(100, 100 * 3)) and random(100, 1000 * 3)
+    expect(first.delayMs).toBe(150);
+    expect(second.delayMs).toBe(825);
+  });
+
+  it("should cap decorrelated jitter at maxDelayMs", () => {
+    mockRandom.mockReturnValue(0.99);
+
+    const result = calculateExponentialBackoff(
+      5,
+      { ...options, maxDelayMs: 500, jitterMode: "decorrelated" },
+      { previousDelayMs: 5000 }
+    );
+
+    expect(result.delayMs).toBe(500);
+  });
+
+  it("should support disabling jitter", () => {
+    const result = calculateExponentialBackoff(3, { ...options, jitterMode: "none" });
+
+    expect(result.delayMs).toBe(400);
+    expect(result.toString()).toBe("Retry 3: 400ms (raw: 400ms, no jitter)");
+  });
+
+  it("should carry the previous delay between RetryManager attempts", async () => {
+    vi.useFakeTimers();
+
+    try {
+      const manager = new RetryManager({ ...options, jitterMode: "decorrelated" });
+
+      const firstWait = manager.waitForNextRetry();
+      await vi.runAllTimersAsync();
+      expect((await firstWait).delayMs).toBe(150);
+
+      // random(100, 150 * 3)
+      expect(manager.previewNextDelay().delayMs).toBe(187.5);
+
+      manager.reset();
+      expect(manager.previewNextDelay().delayMs).toBe(150);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should carry the previous delay between BackoffTimerFactory timers", () => {
+    const mockConsoleDebug = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const factory = new BackoffTimerFactory({
+      ...options,
+      jitterMode: "decorrelated",
+      enableDebugLogs: true
+    });
+
+    factory.create(1);
+    factory.create(2);
+    factory.create(1);
+
+    expect(mockConsoleDebug.mock.calls.map(([message]: unknown[]) => message)).toEqual([
+      "[exponential-backoff-timer] Retry 1: 150ms (raw: 100ms, decorrelated jitter: +50ms)",
+      "[exponential-backoff-timer] Retry 2: 187.5ms (raw: 200ms, decorrelated jitter: -12ms)",
+      "[exponential-backoff-timer] Retry 1: 150ms (raw: 100ms, decorrelated jitter: +50ms)"
+    ]);
+
+    mockConsoleDebug.mockRestore();
+  });
+
+  it("should grow each sequence from its own previous delay", () => {
+    const factory = new BackoffTimerFactory({ ...options, jitterMode: "decorrelated" });
+    const a = factory.startSequence();
+    const b = factory.startSequence();
+    const delay = (retryCount: number, sequence: BackoffSequence) =>
+      factory.calculate(retryCount, undefined, undefined, sequence).delayMs;
+
+    expect(delay(1, a)).toBe(150);
+    expect(delay(2, a)).toBe(187.5);
+    expect(delay(1, b)).toBe(150);
+    // random(100, 187.5 * 3) and random(100, 150 * 3)
+    expect(delay(3, a)).toBe(215.625);
+    expect(delay(2, b)).toBe(187.5);
+  });
+});
+
+describe("injectable random source", () => {
+  const options: BackoffOptions = { baseDelayMs: 100, maxDelayMs: 10000, jitterFactor: 0.5 };
+
+  it("should produce the same sequence for the same seed", () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(new Set(values).size).toBe(5);
+    values.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it("should produce different sequences for different seeds", () => {
+    expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+  });
+
+  it("should use the injected source instead of Math.random", () => {
+    const mockRandom = vi.spyOn(Math, "random");
+    const result = calculateExponentialBackoff(3, { ...options, random: () => 0.75 });
+
+    expect(result.delayMs).toBe(500);
+    expect(mockRandom).not.toHaveBeenCalled();
+    mockRandom.mockRestore();
+  });
+
+  it("should make RetryManager delays reproducible", () => {
+    const delays = (seed: number) => {
+      const manager = new RetryManager({ ...options, random: createSeededRandom(seed) });
+      return Array.from({ length: 4 }, () => manager.previewNextDelay().delayMs);
+    };
+
+    expect(delays(7)).toEqual(delays(7));
+    expect(delays(7)).not.toEqual(delays(8));
+  });
+
+  it("should make createBackoffDelayFunction delays reproducible", () => {
+    const mockConsoleDebug = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const run = (seed: number) => {
+      const delay = createBackoffDelayFunction({
+        ...options,
+        random: createSeededRandom(seed),
+        enableDebugLogs: true
+      });
+      [1, 2, 3].forEach((retryCount) => delay(new Error("failed"), retryCount));
+    };
+
+    run(99);
+    run(99);
+
+    const messages = mockConsoleDebug.mock.calls.map(([message]: unknown[]) => message);
+    expect(messages.slice(0, 3)).toEqual(messages.slice(3));
+    mockConsoleDebug.mockRestore();
+  });
+});
+
+describe("RetryManager limits", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const wait = async (manager: RetryManager) => {
+    const promise = manager.waitForNextRetry();
+    await vi.runAllTimersAsync();
+    return promise;
+  };
+
+  it("should always allow retries without limits", () => {
+    const manager = new RetryManager();
+
+    expect(manager.canRetry()).toBe(true);
+    expect(manager.limits).toEqual({
+      maxAttempts: Infinity,
+      maxElapsedMs: Infinity,
+      maxTotalDelayMs: Infinity
+    });
+  });
+
+  it("should enforce maxAttempts", async () => {
+    const manager = new RetryManager({ baseDelayMs: 10, jitterFactor: 0, maxAttempts: 2 });
+
+    await wait(manager);
+    await wait(manager);
+
+    expect(manager.canRetry()).toBe(false);
+    await expect(manager.waitForNextRetry()).rejects.toMatchObject({
+      name: "RetryExhaustedError",
+      reason: "maxAttempts",
+      attempts: 2
+    });
+    expect(manager.attemptCount).toBe(2);
+  });
+
+  it("should enforce maxElapsedMs across attempts", async () => {
+    const manager = new RetryManager({ baseDelayMs: 100, jitterFactor: 0, maxElapsedMs: 1000 });
+
+    vi.advanceTimersByTime(850);
+    expect(manager.canRetry()).toBe(true);
+
+    // The 100ms delay still fits before the deadline...
+    await wait(manager);
+
+    // ...but the following 200ms delay would overrun it
+    const error: unknown = await manager.waitForNextRetry().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect((error as RetryExhaustedError).reason).toBe("maxElapsedMs");
+
+    vi.advanceTimersByTime(100);
+    expect(manager.canRetry()).toBe(false);
+  });
+
+  it("should enforce maxTotalDelayMs", async () => {
+    const manager = new RetryManager({ baseDelayMs: 100, jitterFactor: 0, maxTotalDelayMs: 350 });
+
+    await wait(manager);
+    await wait(manager);
+    expect(manager.totalDelayMs).toBe(300);
+
+    await expect(manager.waitForNextRetry()).rejects.toMatchObject({
+      reason: "maxTotalDelayMs",
+      totalDelayMs: 300
+    });
+  });
+
+  it("should restart the limits on reset", async () => {
+    const manager = new RetryManager({ baseDelayMs: 10, jitterFactor: 0, maxAttempts: 1 });
+
+    await wait(manager);
+    expect(manager.canRetry()).toBe(false);
+
+    manager.reset();
+    expect(manager.canRetry()).toBe(true);
+    expect(manager.totalDelayMs).toBe(0);
+    expect(manager.elapsedMs).toBe(0);
+  });
+
+  it("should report the first limit reached", () => {
+    const progress = { attempts: 3, elapsedMs: 5000, totalDelayMs: 5000 };
+
+    expect(getRetryLimitReason({}, progress)).toBeUndefined();
+    expect(getRetryLimitReason({ maxAttempts: 3, maxElapsedMs: 1 }, progress)).toBe("maxAttempts");
+    expect(getRetryLimitReason({ maxElapsedMs: 5500 }, progress, 600)).toBe("maxElapsedMs");
+    expect(getRetryLimitReason({ maxTotalDelayMs: 5500 }, progress, 500)).toBeUndefined();
+  });
+});
+
+describe("RetryManager cancellation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should reject a pending wait when the per-call signal aborts", async () => {
+    const manager = new RetryManager({ baseDelayMs: 1000 });
+    const controller = new AbortController();
+    const promise = manager.waitForNextRetry({ signal: controller.signal });
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should not count a wait that was aborted against the limits", async () => {
+    const manager = new RetryManager({
+      baseDelayMs: 1000,
+      jitterFactor: 0,
+      maxAttempts: 3,
+      maxTotalDelayMs: 3000
+    });
+    const controller = new AbortController();
+
+    const first = manager.waitForNextRetry();
+    await vi.advanceTimersByTimeAsync(1000);
+    await first;
+
+    const promise = manager.waitForNextRetry({ signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(manager.attemptCount).toBe(1);
+    expect(manager.remainingAttempts).toBe(2);
+    expect(manager.totalDelayMs).toBe(1000);
+    expect(manager.previewNextDelay().delayMs).toBe(2000);
+  });
+
+  it("should reject pending and future waits when the manager signal aborts", async () => {
+    const controller = new AbortController();
+    const manager = new RetryManager({ baseDelayMs: 1000, signal: controller.signal });
+    const promise = manager.waitForNextRetry();
+
+    controller.abort("shutdown");
+
+    await expect(promise).rejects.toMatchObject({ name: "AbortError", cause: "shutdown" });
+    await expect(manager.waitForNextRetry()).rejects.toBeInstanceOf(AbortError);
+    expect(manager.canRetry()).toBe(false);
+    expect(manager.attemptCount).toBe(0);
+  });
+
+  it("should resolve normally when the signal never aborts", async () => {
+    const controller = new AbortController();
+    const manager = new RetryManager({ baseDelayMs: 10, jitterFactor: 0 });
+    const promise = manager.waitForNextRetry({ signal: controller.signal, unref: true });
+
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toMatchObject({ delayMs: 10 });
+  });
+});
+
+describe("createBackoffDelayFunction limits", () => {
+  it("should error with RetryExhaustedError when maxAttempts is reached", async () => {
+    const failure = new Error("Always fails");
+    const source = throwError(() => failure).pipe(
+      retry({
+        delay: createBackoffDelayFunction({ baseDelayMs: 1, jitterFactor: 0, maxAttempts: 2 })
+      })
+    );
+
+    const error: unknown = await lastValueFrom(source).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect((error as RetryExhaustedError).reason).toBe("maxAttempts");
+    expect((error as RetryExhaustedError).cause).toBe(failure);
+  });
+
+  it("should error when the total delay budget would be exceeded", async () => {
+    const source = throwError(() => new Error("Always fails")).pipe(
+      retry({
+        delay: createBackoffDelayFunction({ baseDelayMs: 5, jitterFactor: 0, maxTotalDelayMs: 20 })
+      })
+    );
+
+    await expect(lastValueFrom(source)).rejects.toMatchObject({
+      reason: "maxTotalDelayMs",
+      attempts: 2,
+      totalDelayMs: 15
+    });
+  });
+
+  it("should start a fresh sequence for each new retry cycle", () => {
+    const factory = new BackoffTimerFactory({ baseDelayMs: 1, jitterFactor: 0, maxAttempts: 1 });
+
+    expect(factory.calculate(1).delayMs).toBe(1);
+    expect(() => factory.calculate(2)).toThrow(RetryExhaustedError);
+    expect(factory.calculate(1).delayMs).toBe(1);
+  });
+
+  it("should count the limits of each sequence separately", () => {
+    const factory = new BackoffTimerFactory({
+      baseDelayMs: 100,
+      jitterFactor: 0,
+      maxTotalDelayMs: 700
+    });
+    const a = factory.startSequence();
+    const b = factory.startSequence();
+
+    factory.calculate(1, undefined, undefined, a);
+    factory.calculate(1, undefined, undefined, b);
+    factory.calculate(2, undefined, undefined, a);
+    factory.calculate(2, undefined, undefined, b);
+
+    expect(factory.calculate(3, undefined, undefined, a).delayMs).toBe(400);
+    expect(a.totalDelayMs).toBe(700);
+    expect(b.totalDelayMs).toBe(300);
+    expect(() => factory.calculate(4, undefined, undefined, a)).toThrow(RetryExhaustedError);
+  });
+
+  it("should keep the limits of concurrent streams apart", async () => {
+    const failThrice = () => {
+      let failures = 0;
+      return defer(() => (++failures <= 3 ? throwError(() => new Error("down")) : of("ok")));
+    };
+    const withBackoff = () =>
+      defer(() =>
+        failThrice().pipe(
+          retry({
+            delay: createBackoffDelayFunction({
+              baseDelayMs: 1,
+              jitterFactor: 0,
+              maxTotalDelayMs: 7
+            })
+          })
+        )
+      );
+
+    await expect(
+      Promise.all([lastValueFrom(withBackoff()), lastValueFrom(withBackoff())])
+    ).resolves.toEqual(["ok", "ok"]);
+  });
+});
 
 describe("RxjsBackoffTimerFactory", () => {
   let mockConsoleDebug: ReturnType<typeof vi.spyOn>;
@@ -33,6 +562,7 @@ describe("RxjsBackoffTimerFactory", () => {
       expect(options.baseDelayMs).toBe(1000);
       expect(options.maxDelayMs).toBe(5000);
       expect(options.jitterFactor).toBe(0.2);
+      expect(options.strategy).toBe("exponential");
       expect(options.emitDelay).toBe(false);
       expect(options.enableDebugLogs).toBe(false);
     });
@@ -208,6 +738,21 @@ describe("RxjsBackoffTimerFactory", () => {
       );
     });
 
+    it("should honour the configured strategy", () => {
+      const factory = new BackoffTimerFactory({
+        baseDelayMs: 100,
+        jitterFactor: 0,
+        strategy: "linear",
+        enableDebugLogs: true
+      });
+
+      factory.create(3);
+
+      expect(mockConsoleDebug).toHaveBeenCalledWith(
+        "[exponential-backoff-timer] Retry 3: 300ms (raw: 300ms, linear, no jitter)"
+      );
+    });
+
     it("should not log when debug is disabled", () => {
       const factory = new BackoffTimerFactory({
         enableDebugLogs: false
@@ -285,6 +830,92 @@ describe("RxjsBackoffTimerFactory", () => {
   });
 });
 
+describe("scheduler injection", () => {
+  it("should run factory timers on the configured scheduler", () => {
+    const testScheduler = createTestScheduler();
+
+    testScheduler.run(({ expectObservable }) => {
+      const factory = new BackoffTimerFactory({
+        baseDelayMs: 100,
+        jitterFactor: 0,
+        scheduler: testScheduler
+      });
+
+      expectObservable(factory.create(3)).toBe("400ms (a|)", { a: 0 });
+    });
+  });
+
+  it("should accept a scheduler override in create()", () => {
+    const testScheduler = createTestScheduler();
+    const factory = new BackoffTimerFactory({ baseDelayMs: 10, jitterFactor: 0 });
+
+    testScheduler.run(({ expectObservable }) => {
+      expectObservable(factory.create(1, { scheduler: testScheduler })).toBe("10ms (a|)", {
+        a: 0
+      });
+    });
+  });
+
+  it("should accept a scheduler in createBackoffTimer", () => {
+    const testScheduler = createTestScheduler();
+
+    testScheduler.run(({ expectObservable }) => {
+      expectObservable(
+        createBackoffTimer(2, { baseDelayMs: 50, jitterFactor: 0 }, testScheduler)
+      ).toBe("100ms (a|)", { a: 0 });
+    });
+  });
+
+  it("should run a whole retry timeline in virtual time", () => {
+    const testScheduler = createTestScheduler();
+
+    testScheduler.run(({ cold, expectObservable, expectSubscriptions }) => {
+      const source = cold("#");
+      const delay = createBackoffDelayFunction(
+        { baseDelayMs: 100, jitterFactor: 0, maxAttempts: 3 },
+        testScheduler
+      );
+
+      expectObservable(source.pipe(retry({ delay }))).toBe(
+        "700ms #",
+        undefined,
+        new RetryExhaustedError("maxAttempts", {
+          attempts: 3,
+          elapsedMs: 700,
+          totalDelayMs: 700
+        })
+      );
+      expectSubscriptions(source.subscriptions).toBe([
+        "(^!)",
+        "100ms (^!)",
+        "300ms (^!)",
+        "700ms (^!)"
+      ]);
+    });
+  });
+
+  it("should measure elapsed time on the configured scheduler", () => {
+    const testScheduler = createTestScheduler();
+
+    testScheduler.run(({ cold, expectObservable }) => {
+      const delay = createBackoffDelayFunction(
+        { baseDelayMs: 100, jitterFactor: 0, maxElapsedMs: 250 },
+        testScheduler
+      );
+
+      expectObservable(cold("#").pipe(retry({ delay }))).toBe(
+        "100ms #",
+        undefined,
+        new RetryExhaustedError("maxElapsedMs", {
+          attempts: 1,
+          elapsedMs: 100,
+          totalDelayMs: 100
+        })
+      );
+    });
+  });
+});
+
 describe("createBackoffTimer function", () => {
   it("should work as a simple function replacement", () => {
     return new Promise<void>((resolve) => {
@@ -594,6 +1225,40 @@ describe("HttpRetryService", () => {
           });
         });
       });
+
+      it("should keep the 5xx retries when 429s used up their own", async () => {
+        vi.useFakeTimers();
+
+        try {
+          const errors = [429, 429, 429, 503].map((status) => ({ status, message: "Retry" }));
+          let attemptCount = 0;
+          const source = defer(() => {
+            const error = errors[attemptCount++];
+            return error ? throwError(() => error) : of("Recovered");
+          });
+
+          const result = lastValueFrom(httpRetryService.retryHttpWithStatusCodeLogic(source, 3));
+          await vi.advanceTimersByTimeAsync(60000);
+
+          await expect(result).resolves.toBe("Recovered");
+          expect(attemptCount).toBe(5);
+        } finally {
+          vi.useRealTimers();
+        }
+      });
+
+      it("should fail fast on 408 like other client errors", async () => {
+        let attemptCount = 0;
+        const timeoutSource = defer(() => {
+          attemptCount++;
+          return throwError(() => ({ status: 408, message: "Request Timeout" }));
+        });
+
+        await expect(
+          lastValueFrom(httpRetryService.retryHttpWithStatusCodeLogic(timeoutSource, 3))
+        ).rejects.toMatchObject({ status: 408 });
+        expect(attemptCount).toBe(1);
+      });
     });
 
     it("should throw error when max retries exceeded", () => {
@@ -27,6 +27,160 @@
  * while reducing the overall load during outages.
  */
 
+import { Subject, type Observable } from "rxjs";
+import type { RetryBudget } from "./exponential-backoff-budget";
+import { isRetryableError, type ErrorClassifier } from "./exponential-backoff-classifiers";
+import { assertValidBackoffOptions } from "./exponential-backoff-config";
+import { applyRetryProfile, type RetryProfileOptions } from "./exponential-backoff-profiles";
+import {
+  BackoffPolicyTracker,
+  getPolicyBackoffOptions,
+  resolveBackoffPolicy,
+  type ErrorBackoffPolicy
+} from "./exponential-backoff-policies";
+import {
+  AbortError,
+  RetryBudgetExhaustedError,
+  RetryExhaustedError,
+  type RetryLimitReason,
+  type RetryProgress
+} from "./exponential-backoff-errors";
+import {
+  logRetryEvent,
+  type RetryEvent,
+  type RetryEventInit,
+  type RetryEventOptions
+} from "./exponential-backoff-events";
+import type { RetryAfterExtractor, RetryAfterMode } from "./exponential-backoff-hints";
+import {
+  createAbortError,
+  linkAbortSignals,
+  sleep,
+  type SleepOptions
+} from "./exponential-backoff-sleep";
+
+/**
+ * The names of the built-in delay growth strategies.
+ *
+ * - `exponential`: baseDelay × multiplier^(attempt - 1) (doubling by default)
+ * - `linear`: baseDelay + increment × (attempt - 1)
+ * - `fibonacci`: baseDelay × fib(attempt), giving 1, 1, 2, 3, 5, 8... × baseDelay
+ * - `polynomial`: baseDelay × attempt^exponent
+ * - `constant`: baseDelay for every attempt
+ */
+export type BackoffStrategyName =
+  | "exponential"
+  | "linear"
+  | "fibonacci"
+  | "polynomial"
+  | "constant";
+
+/**
+ * The jitter algorithms supported by {@link calculateExponentialBackoff}.
+ *
+ * - `symmetric`: cappedDelay ± (cappedDelay × jitterFactor), the original behavior
+ * - `full`: random(0, cappedDelay)
+ * - `equal`: cappedDelay / 2 + random(0, cappedDelay / 2)
+ * - `decorrelated`: min(maxDelay, random(baseDelay, previousDelay × 3))
+ * - `none`: cappedDelay, with no randomness at all
+ *
+ * The `full`, `equal` and `decorrelated` modes follow the algorithms described
+ * in the AWS Architecture Blog post "Exponential Backoff And Jitter", which
+ * most cloud SDKs use to minimize contention. They ignore `jitterFactor`.
+ */
+export type JitterMode = "symmetric" | "full" | "equal" | "decorrelated" | "none";
+
+/**
+ * State carried between attempts that some calculations depend on.
+ *
+ * {@link RetryManager} and `BackoffTimerFactory` track this for you; it only
+ * needs to be supplied when calling {@link calculateExponentialBackoff} directly.
+ */
+export interface BackoffContext {
+  /**
+   * The delay returned for the previous attempt, used by decorrelated jitter.
+   * Defaults to `baseDelayMs` when there is no previous attempt.
+   */
+  previousDelayMs?: number;
+
+  /**
+   * A delay requested by the server, for example through a `Retry-After`
+   * header. It is clamped to `maxDelayMs` and combined with the computed
+   * backoff according to {@link retryAfterMode}.
+   */
+  retryAfterMs?: number;
+
+  /**
+   * How {@link retryAfterMs} is combined with the computed backoff.
+   *
+   * @defaultValue "floor"
+   */
+  retryAfterMode?: RetryAfterMode;
+}
+
+/**
+ * A user-supplied function that calculates the raw (uncapped, unjittered) delay
+ * for an attempt.
+ *
+ * The returned value is capped at `maxDelayMs` and jittered just like the
+ * built-in strategies, so the function only has to describe the growth curve.
+ *
+ * @param attempt - The normalized retry attempt number (1-based)
+ * @param options - The resolved backoff options, including defaults
+ * @returns The raw delay in milliseconds
+ */
+export type BackoffStrategyFunction = (
+  attempt: number,
+  options: Readonly<Required<BackoffOptions>>
+) => number;
+
+/**
+ * A built-in strategy together with its tuning parameters.
+ *
+ * @example
+ * ```typescript
+ * // Gentler growth for queue workers: 1000, 1500, 2250, 3375...
+ * const gentle: BackoffStrategyConfig = { type: "exponential", multiplier: 1.5 };
+ *
+ * // Add 250ms per attempt: 1000, 1250, 1500, 1750...
+ * const linear: BackoffStrategyConfig = { type: "linear", incrementMs: 250 };
+ * ```
+ */
+export type BackoffStrategyConfig =
+  | {
+      type: "exponential";
+      /**
+       * The growth factor applied per attempt.
+       *
+       * @defaultValue 2
+       */
+      multiplier?: number;
+    }
+  | {
+      type: "linear";
+      /**
+       * The amount added per attempt. Defaults to `baseDelayMs`, which makes
+       * the delay grow as baseDelay × attempt.
+       */
+      incrementMs?: number;
+    }
+  | { type: "fibonacci" }
+  | {
+      type: "polynomial";
+      /**
+       * The power the attempt number is raised to.
+       *
+       * @defaultValue 2
+       */
+      exponent?: number;
+    }
+  | { type: "constant" };
+
+/**
+ * Any value accepted by {@link BackoffOptions.strategy}.
+ */
+export type BackoffStrategy = BackoffStrategyName | BackoffStrategyConfig | BackoffStrategyFunction;
+
 /**
  * Configuration options for exponential backoff behavior.
  *
@@ -55,9 +209,9 @@ export interface BackoffOptions {
   /**
    * The initial delay in milliseconds before the first retry attempt.
    *
-   * This is your "starting wait time" - each subsequent retry will double
-   * the previous delay until hitting the maximum. Choose this based on how
-   * quickly you expect transient issues to resolve.
+   * This is your "starting wait time" - with the default strategy each
+   * subsequent retry will double the previous delay until hitting the maximum.
+   * Choose this based on how quickly you expect transient issues to resolve.
    *
    * **Typical values:**
    * - API calls: 100-500ms (network issues resolve quickly)
@@ -107,9 +261,74 @@ export interface BackoffOptions {
    * - Range: 3000ms to 5000ms
    * - Average: Still 4000ms across many clients
    *
+   * Use `compareJitterModes()` to measure the spread for your own fleet size
+   * and outage.
+   *
    * @defaultValue 0.2
    */
   jitterFactor?: number;
+
+  /**
+   * The jitter algorithm used to randomize the capped delay.
+   *
+   * The default `symmetric` mode applies the ±`jitterFactor` offset described
+   * above. The `full`, `equal` and `decorrelated` modes trade predictability
+   * for less contention when many clients fail at once; see {@link JitterMode}.
+   *
+   * **Choosing a mode:**
+   * - `symmetric`: delays stay close to the curve, average unchanged
+   * - `full`: lowest contention, but some retries happen almost immediately
+   * - `equal`: always waits at least half the curve
+   * - `decorrelated`: grows from the previous delay rather than the attempt number
+   *
+   * @defaultValue "symmetric"
+   */
+  jitterMode?: JitterMode;
+
+  /**
+   * The source of randomness used for jitter, returning values in [0, 1).
+   *
+   * Injecting a source makes jitter reproducible: tests no longer need to spy
+   * on `Math.random` or disable jitter, and a production retry timeline can be
+   * replayed from the seed it was logged with. Use {@link createSeededRandom}
+   * for a deterministic source.
+   *
+   * @example
+   * ```typescript
+   * // The same seed always produces the same delay sequence
+   * { random: createSeededRandom(42) }
+   * ```
+   *
+   * @defaultValue Math.random
+   */
+  random?: () => number;
+
+  /**
+   * The growth curve used to turn an attempt number into a raw delay.
+   *
+   * Doubling suits most network retries, but not every workload wants it:
+   * queue workers often prefer a gentler curve, while health checks usually
+   * want a flat interval. The cap and jitter are applied on top of whichever
+   * strategy is chosen.
+   *
+   * Accepts a strategy name, a {@link BackoffStrategyConfig} with tuning
+   * parameters, or a {@link BackoffStrategyFunction} for custom curves.
+   *
+   * @example
+   * ```typescript
+   * // 1.5× growth instead of doubling
+   * { strategy: { type: "exponential", multiplier: 1.5 } }
+   *
+   * // Flat 10s interval for health checks
+   * { baseDelayMs: 10000, maxDelayMs: 10000, strategy: "constant" }
+   *
+   * // Custom curve: square root growth
+   * { strategy: (attempt, { baseDelayMs }) => baseDelayMs * Math.sqrt(attempt) }
+   * ```
+   *
+   * @defaultValue "exponential"
+   */
+  strategy?: BackoffStrategy;
 }
 
 /**
@@ -135,11 +354,22 @@ export class BackoffResult {
   public readonly cappedDelayMs: number;
 
   /**
-   * The random offset applied during jitter calculation.
-   * Will be 0 if jitter is disabled.
+   * The random offset applied during jitter calculation, relative to the
+   * capped delay. Will be 0 if jitter is disabled.
    */
   public readonly jitterOffsetMs: number;
 
+  /**
+   * The jitter algorithm that produced {@link jitterOffsetMs}.
+   */
+  public readonly jitterMode: JitterMode;
+
+  /**
+   * The server-requested delay that was applied, after clamping to the cap.
+   * Will be undefined if no hint was available.
+   */
+  public readonly retryAfterMs: number | undefined;
+
   /**
    * Whether the raw exponential delay exceeded the maximum cap.
    */
@@ -150,6 +380,12 @@ export class BackoffResult {
    */
   public readonly retryAttempt: number;
 
+  /**
+   * The name of the strategy that produced the raw delay.
+   * Will be "custom" when a {@link BackoffStrategyFunction} was used.
+   */
+  public readonly strategy: BackoffStrategyName | "custom";
+
   /**
    * Creates a new BackoffResult with calculation details.
    *
@@ -158,13 +394,19 @@ export class BackoffResult {
    * @param cappedDelayMs - The delay after applying the cap
    * @param jitterOffsetMs - The random offset applied
    * @param retryAttempt - The retry attempt number
+   * @param strategy - The name of the strategy used
+   * @param jitterMode - The jitter algorithm used
+   * @param retryAfterMs - The server-requested delay that was applied
    */
   constructor(
     delayMs: number,
     rawDelayMs: number,
     cappedDelayMs: number,
     jitterOffsetMs: number,
-    retryAttempt: number
+    retryAttempt: number,
+    strategy: BackoffStrategyName | "custom" = "exponential",
+    jitterMode: JitterMode = "symmetric",
+    retryAfterMs?: number
   ) {
     this.delayMs = Math.max(0, delayMs); // Never allow negative delays
     this.rawDelayMs = rawDelayMs;
@@ -172,6 +414,9 @@ export class BackoffResult {
     this.jitterOffsetMs = jitterOffsetMs;
     this.wasCapped = rawDelayMs > cappedDelayMs;
     this.retryAttempt = retryAttempt;
+    this.strategy = strategy;
+    this.jitterMode = jitterMode;
+    this.retryAfterMs = retryAfterMs;
   }
 
   /**
@@ -186,27 +431,144 @@ export class BackoffResult {
    * const result = calculateExponentialBackoff(5);
    * console.log(result.toString());
    * // "Retry 5: 4000ms (raw: 16000ms, capped, jitter: -200ms)"
+   *
+   * const full = calculateExponentialBackoff(5, { jitterMode: "full" });
+   * console.log(full.toString());
+   * // "Retry 5: 1830ms (raw: 16000ms, capped, full jitter: -3170ms)"
    * ```
    */
   public toString(): string {
     let result = `Retry ${this.retryAttempt}: ${this.delayMs}ms (raw: ${this.rawDelayMs}ms`;
 
+    if (this.strategy !== "exponential") {
+      result += `, ${this.strategy}`;
+    }
+
     if (this.wasCapped) {
       result += ", capped";
     }
 
     if (this.jitterOffsetMs !== 0) {
       const sign = this.jitterOffsetMs >= 0 ? "+" : "";
-      result += `, jitter: ${sign}${Math.round(this.jitterOffsetMs)}ms`;
+      const label = this.jitterMode === "symmetric" ? "jitter" : `${this.jitterMode} jitter`;
+      result += `, ${label}: ${sign}${Math.round(this.jitterOffsetMs)}ms`;
     } else {
       result += ", no jitter";
     }
 
+    if (this.retryAfterMs !== undefined) {
+      result += `, retry-after: ${Math.round(this.retryAfterMs)}ms`;
+    }
+
     result += ")";
     return result;
   }
 }
 
+/**
+ * Creates a deterministic pseudo-random number generator from a seed.
+ *
+ * Uses the mulberry32 algorithm: fast, small, and well distributed enough for
+ * jitter. It is **not** suitable for anything security related. Each call to
+ * this function returns an independent generator, so two generators created
+ * from the same seed produce the same sequence.
+ *
+ * @param seed - Any number; it is truncated to a 32-bit integer
+ * @returns A function returning values in [0, 1), like `Math.random`
+ *
+ * @example
+ * ```typescript
+ * const manager = new RetryManager({ random: createSeededRandom(1234) });
+ * // Every run with seed 1234 waits exactly the same amounts of time
+ * ```
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Returns the nth Fibonacci number (1-based) using the sequence 1, 1, 2, 3, 5...
+ */
+const fibonacci = (n: number): number => {
+  let previous = 0;
+  let current = 1;
+
+  for (let i = 1; i < n; i++) {
+    [previous, current] = [current, previous + current];
+  }
+
+  return current;
+};
+
+/**
+ * Returns the display name of a strategy for use in {@link BackoffResult}.
+ *
+ * @param strategy - The strategy to name
+ * @returns The strategy name, or "custom" for user-supplied functions
+ */
+export const getBackoffStrategyName = (
+  strategy: BackoffStrategy
+): BackoffStrategyName | "custom" => {
+  if (typeof strategy === "function") {
+    return "custom";
+  }
+
+  return typeof strategy === "string" ? strategy : strategy.type;
+};
+
+/**
+ * Calculates the raw delay for an attempt according to the configured strategy.
+ *
+ * The result is neither capped nor jittered; {@link calculateExponentialBackoff}
+ * applies both afterwards. Non-finite or negative results from custom
+ * strategies are treated as 0 so they can never produce a nonsensical wait.
+ *
+ * @param attempt - The normalized retry attempt number (1-based)
+ * @param options - The resolved backoff options
+ * @returns The raw delay in milliseconds
+ *
+ * @example
+ * ```typescript
+ * calculateStrategyDelay(3, { ...options, strategy: "fibonacci" }); // 2 × baseDelayMs
+ * calculateStrategyDelay(3, { ...options, strategy: "linear" }); // 3 × baseDelayMs
+ * ```
+ */
+export const calculateStrategyDelay = (
+  attempt: number,
+  options: Readonly<Required<BackoffOptions>>
+): number => {
+  const { baseDelayMs, strategy } = options;
+
+  if (typeof strategy === "function") {
+    const delayMs = strategy(attempt, options);
+    return Number.isFinite(delayMs) ? Math.max(0, delayMs) : 0;
+  }
+
+  const config: BackoffStrategyConfig =
+    typeof strategy === "string" ? ({ type: strategy } as BackoffStrategyConfig) : strategy;
+
+  switch (config.type) {
+    case "exponential":
+      return baseDelayMs * Math.pow(config.multiplier ?? 2, attempt - 1);
+    case "linear":
+      return baseDelayMs + (config.incrementMs ?? baseDelayMs) * (attempt - 1);
+    case "fibonacci":
+      return baseDelayMs * fibonacci(attempt);
+    case "polynomial":
+      return baseDelayMs * Math.pow(attempt, config.exponent ?? 2);
+    case "constant":
+      return baseDelayMs;
+  }
+};
+
 /**
  * Calculates an exponential backoff delay with capping and optional jitter.
  *
@@ -215,10 +577,13 @@ export class BackoffResult {
  * The calculation follows these steps in order:
  *
  * 1. **Input Validation**: Ensure retryAttempt is at least 1
- * 2. **Exponential Growth**: Calculate baseDelay × 2^(retryAttempt - 1)
+ * 2. **Growth**: Calculate baseDelay × 2^(retryAttempt - 1), or apply the
+ *    configured {@link BackoffOptions.strategy}
  * 3. **Apply Cap**: Limit the delay to maxDelayMs to prevent runaway growth
- * 4. **Add Jitter**: Apply random offset to prevent synchronized retries
+ * 4. **Add Jitter**: Apply random offset to prevent synchronized retries,
+ *    using the configured {@link BackoffOptions.jitterMode}
  * 5. **Safety Check**: Ensure the final delay is never negative
+ * 6. **Server Hint**: Respect a `Retry-After` style delay from the context, if any
  *
  * ## Mathematical Formula
  *
@@ -229,6 +594,8 @@ export class BackoffResult {
  * finalDelay = max(0, cappedDelay + jitterOffset)
  * ```
  *
+ * Other jitter modes replace the last two lines; see {@link JitterMode}.
+ *
  * ## Practical Examples
  *
  * **Default settings (base: 1000ms, cap: 5000ms, jitter: 0.2):**
@@ -268,6 +635,8 @@ export class BackoffResult {
  * @param retryAttempt - The current retry attempt number (1-based).
  *                      Values ≤ 0 are treated as 1 for safety.
  * @param options - Configuration for the backoff calculation
+ * @param context - State from previous attempts, such as the previous delay
+ *                  used by decorrelated jitter
  * @returns A BackoffResult containing the delay and calculation details
  *
  * @throws Never throws - all inputs are validated and sanitized
@@ -295,45 +664,92 @@ export class BackoffResult {
  */
 export const calculateExponentialBackoff = (
   retryAttempt: number,
-  { baseDelayMs = 1000, maxDelayMs = 5000, jitterFactor = 0.2 }: BackoffOptions = {}
+  {
+    baseDelayMs = 1000,
+    maxDelayMs = 5000,
+    jitterFactor = 0.2,
+    jitterMode = "symmetric",
+    strategy = "exponential",
+    random = Math.random
+  }: BackoffOptions = {},
+  { previousDelayMs = baseDelayMs, retryAfterMs, retryAfterMode = "floor" }: BackoffContext = {}
 ): BackoffResult => {
   // Normalize retry attempt to be at least 1
   // This ensures the exponential formula works correctly and provides
   // intuitive behavior for callers who might pass 0 or negative values
   const normalizedAttempt = Math.max(1, Math.floor(retryAttempt));
 
-  // Calculate the raw exponential delay
-  // Formula: baseDelay × 2^(attempt - 1)
+  // Calculate the raw delay using the configured strategy
+  // Default formula: baseDelay × 2^(attempt - 1)
   // - Attempt 1: baseDelay × 2^0 = baseDelay × 1 = baseDelay
   // - Attempt 2: baseDelay × 2^1 = baseDelay × 2 = 2 × baseDelay
   // - Attempt 3: baseDelay × 2^2 = baseDelay × 4 = 4 × baseDelay
   // The subtraction of 1 ensures the first retry uses the base delay directly
-  const rawDelayMs = baseDelayMs * Math.pow(2, normalizedAttempt - 1);
+  const rawDelayMs = calculateStrategyDelay(normalizedAttempt, {
+    baseDelayMs,
+    maxDelayMs,
+    jitterFactor,
+    jitterMode,
+    strategy,
+    random
+  });
 
   // Apply the maximum cap to prevent impractically long delays
   // This is crucial because exponential growth becomes extreme quickly:
   // Without a cap, attempt 20 with base 1000ms would be ~524 seconds (8+ minutes)
   const cappedDelayMs = Math.min(rawDelayMs, maxDelayMs);
 
-  // Calculate and apply jitter if enabled
-  let jitterOffsetMs = 0;
+  // Calculate and apply jitter according to the selected mode
   let finalDelayMs = cappedDelayMs;
 
-  if (jitterFactor > 0) {
-    // Calculate the maximum jitter range
-    // This is the amount by which we can vary the delay in either direction
-    const jitterRangeMs = cappedDelayMs * Math.abs(jitterFactor);
-
-    // Generate a random offset in the range [-jitterRange, +jitterRange]
-    // Math.random() returns [0, 1), so:
-    // - Math.random() * 2 gives [0, 2)
-    // - Subtracting 1 gives [-1, 1)
-    // - Multiplying by jitterRange gives [-jitterRange, +jitterRange)
-    jitterOffsetMs = (Math.random() * 2 - 1) * jitterRangeMs;
-
-    // Apply the jitter offset and ensure we never return a negative delay
-    // Negative delays don't make sense for waiting, so we clamp to 0
-    finalDelayMs = Math.max(0, cappedDelayMs + jitterOffsetMs);
+  switch (jitterMode) {
+    case "symmetric":
+      if (jitterFactor > 0) {
+        // Calculate the maximum jitter range
+        // This is the amount by which we can vary the delay in either direction
+        const jitterRangeMs = cappedDelayMs * Math.abs(jitterFactor);
+
+        // Generate a random offset in the range [-jitterRange, +jitterRange]
+        // random() returns [0, 1), so:
+        // - random() * 2 gives [0, 2)
+        // - Subtracting 1 gives [-1, 1)
+        // - Multiplying by jitterRange gives [-jitterRange, +jitterRange)
+        finalDelayMs = cappedDelayMs + (random() * 2 - 1) * jitterRangeMs;
+      }
+      break;
+    case "full":
+      // Anywhere between no wait and the full capped delay
+      finalDelayMs = random() * cappedDelayMs;
+      break;
+    case "equal":
+      // Keep half of the delay and randomize the other half
+      finalDelayMs = cappedDelayMs / 2 + random() * (cappedDelayMs / 2);
+      break;
+    case "decorrelated": {
+      // Grow from the previous delay rather than the attempt number, so
+      // clients that started together drift apart over successive retries
+      const upperMs = Math.max(baseDelayMs, previousDelayMs * 3);
+      finalDelayMs = Math.min(maxDelayMs, baseDelayMs + random() * (upperMs - baseDelayMs));
+      break;
+    }
+    case "none":
+      break;
+  }
+
+  // Ensure we never return a negative delay
+  // Negative delays don't make sense for waiting, so we clamp to 0
+  finalDelayMs = Math.max(0, finalDelayMs);
+  const jitterOffsetMs = finalDelayMs - cappedDelayMs;
+
+  // Respect the server's requested delay, but never beyond the cap
+  let appliedRetryAfterMs: number | undefined;
+
+  if (retryAfterMs !== undefined && Number.isFinite(retryAfterMs)) {
+    appliedRetryAfterMs = Math.min(Math.max(0, retryAfterMs), maxDelayMs);
+    finalDelayMs =
+      retryAfterMode === "override"
+        ? appliedRetryAfterMs
+        : Math.max(finalDelayMs, appliedRetryAfterMs);
   }
 
   return new BackoffResult(
@@ -341,10 +757,179 @@ export const calculateExponentialBackoff = (
     rawDelayMs,
     cappedDelayMs,
     jitterOffsetMs,
-    normalizedAttempt
+    normalizedAttempt,
+    getBackoffStrategyName(strategy),
+    jitterMode,
+    appliedRetryAfterMs
   );
 };
 
+/**
+ * Limits that stop a retry loop from running forever.
+ *
+ * Without limits, a retry loop against a dependency that never recovers keeps
+ * going for hours. Each limit guards a different budget: the number of
+ * retries, the wall-clock time across all attempts, and the time spent
+ * sleeping between them. All limits are unbounded by default.
+ *
+ * @example
+ * ```typescript
+ * // At most 5 retries, and give up after 30 seconds no matter what
+ * const limits: RetryLimits = { maxAttempts: 5, maxElapsedMs: 30000 };
+ * ```
+ */
+export interface RetryLimits {
+  /**
+   * The maximum number of retries (not counting the initial attempt).
+   *
+   * @defaultValue Infinity
+   */
+  maxAttempts?: number;
+
+  /**
+   * The deadline in milliseconds across all attempts.
+   *
+   * A retry is refused when its delay would end after the deadline, since the
+   * attempt that follows it could not finish in time anyway.
+   *
+   * @defaultValue Infinity
+   */
+  maxElapsedMs?: number;
+
+  /**
+   * The maximum total time in milliseconds spent waiting between attempts.
+   *
+   * Unlike {@link maxElapsedMs}, time spent inside the attempts themselves is
+   * not counted. A retry is refused when its delay would exceed this budget.
+   *
+   * @defaultValue Infinity
+   */
+  maxTotalDelayMs?: number;
+}
+
+/**
+ * Configuration options for {@link RetryManager}.
+ */
+export interface RetryManagerOptions
+  extends BackoffOptions,
+    RetryLimits,
+    RetryEventOptions,
+    RetryProfileOptions {
+  /**
+   * Cancels every wait made by the manager, for example on service shutdown.
+   *
+   * Once aborted, {@link RetryManager.canRetry} returns false and
+   * {@link RetryManager.waitForNextRetry} rejects immediately with an AbortError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Whether to `unref()` backoff timers so a pending wait never keeps a
+   * Node.js process alive.
+   *
+   * @defaultValue false
+   */
+  unref?: boolean;
+
+  /**
+   * A retry budget shared with other retry loops calling the same dependency.
+   *
+   * The manager records one request when it is created and each time it is
+   * reset. When the budget is used up, retries fail fast with a
+   * RetryBudgetExhaustedError instead of waiting.
+   */
+  retryBudget?: RetryBudget | undefined;
+
+  /**
+   * Decides which errors {@link RetryManager.shouldRetry} treats as
+   * retryable. Errors the classifier has no opinion on are retried.
+   *
+   * @defaultValue Retry every error
+   */
+  classifier?: ErrorClassifier | undefined;
+
+  /**
+   * Backoff policies for particular classes of errors, resolved from the error
+   * passed to {@link RetryManager.scheduleNextRetry} or
+   * {@link RetryManager.waitForNextRetry}. Each class keeps its own attempt
+   * count; errors matching no policy use the manager's own options.
+   *
+   * @defaultValue No policies
+   */
+  policies?: readonly ErrorBackoffPolicy[] | undefined;
+
+  /**
+   * Reads a server-requested delay from the error passed to
+   * {@link RetryManager.scheduleNextRetry} or {@link RetryManager.waitForNextRetry},
+   * such as `retryAfterFromHeaders` for the `Retry-After` header. The hint is
+   * clamped to `maxDelayMs` and recorded on `BackoffResult.retryAfterMs`.
+   *
+   * @defaultValue No hints are read
+   */
+  retryAfter?: RetryAfterExtractor | undefined;
+
+  /**
+   * How a server-requested delay is combined with the computed backoff.
+   *
+   * @defaultValue "floor"
+   */
+  retryAfterMode?: RetryAfterMode | undefined;
+
+  /**
+   * Whether the constructor rejects invalid options, such as a negative
+   * `baseDelayMs` or a `jitterFactor` above 1, with a BackoffConfigError
+   * instead of clamping them during the calculation.
+   *
+   * @defaultValue false
+   */
+  strict?: boolean;
+}
+
+/**
+ * Options for {@link RetryManager.waitForNextRetry}.
+ */
+export interface WaitForNextRetryOptions extends SleepOptions {
+  /**
+   * The error being retried. It selects the backoff policy and is attached as
+   * the `cause` of a RetryExhaustedError.
+   */
+  error?: unknown;
+}
+
+/**
+ * Determines which retry limit, if any, prevents another attempt.
+ *
+ * @param limits - The configured limits
+ * @param progress - How far the retry loop has progressed
+ * @param nextDelayMs - The delay before the next attempt, when already known
+ * @returns The limit that was reached, or undefined if retrying may continue
+ *
+ * @example
+ * ```typescript
+ * getRetryLimitReason({ maxAttempts: 3 }, { attempts: 3, elapsedMs: 0, totalDelayMs: 0 });
+ * // "maxAttempts"
+ * ```
+ */
+export const getRetryLimitReason = (
+  { maxAttempts = Infinity, maxElapsedMs = Infinity, maxTotalDelayMs = Infinity }: RetryLimits,
+  { attempts, elapsedMs, totalDelayMs }: RetryProgress,
+  nextDelayMs = 0
+): RetryLimitReason | undefined => {
+  if (attempts >= maxAttempts) {
+    return "maxAttempts";
+  }
+
+  if (elapsedMs >= maxElapsedMs || elapsedMs + nextDelayMs > maxElapsedMs) {
+    return "maxElapsedMs";
+  }
+
+  if (totalDelayMs >= maxTotalDelayMs || totalDelayMs + nextDelayMs > maxTotalDelayMs) {
+    return "maxTotalDelayMs";
+  }
+
+  return undefined;
+};
+
 /**
  * A utility class for managing retry attempts with exponential backoff.
  *
@@ -356,15 +941,18 @@ export const calculateExponentialBackoff = (
  * const retryManager = new RetryManager({
  *   baseDelayMs: 500,
  *   maxDelayMs: 10000,
- *   jitterFactor: 0.25
+ *   jitterFactor: 0.25,
+ *   maxAttempts: 5,
+ *   maxElapsedMs: 60000
  * });
  *
- * while (retryManager.canRetry() && retryManager.attemptCount < 5) {
+ * while (retryManager.canRetry()) {
  *   try {
  *     const result = await riskyOperation();
  *     return result; // Success!
  *   } catch (error) {
  *     if (retryManager.shouldRetry(error)) {
+ *       // Throws RetryExhaustedError once a limit is reached
  *       await retryManager.waitForNextRetry();
  *     } else {
  *       throw error; // Don't retry this type of error
@@ -375,7 +963,31 @@ export const calculateExponentialBackoff = (
  */
 export class RetryManager {
   private _attemptCount = 0;
+  private _previousDelayMs: number | undefined;
+  private _startedAt = Date.now();
+  private _totalDelayMs = 0;
   private readonly _options: Required<BackoffOptions>;
+  private readonly _limits: Required<RetryLimits>;
+  private readonly _signal: AbortSignal | undefined;
+  private readonly _unref: boolean;
+  private readonly _retryBudget: RetryBudget | undefined;
+  private readonly _onEvent: ((event: RetryEvent) => void) | undefined;
+  private readonly _classifier: ErrorClassifier | undefined;
+  private readonly _policies: readonly ErrorBackoffPolicy[];
+  private readonly _retryAfter: RetryAfterExtractor | undefined;
+  private readonly _retryAfterMode: RetryAfterMode;
+  private readonly _policyTracker = new BackoffPolicyTracker();
+  private readonly _logger: RetryEventOptions["logger"];
+  private readonly _events = new Subject<RetryEvent>();
+
+  /**
+   * Emits every retry lifecycle event published by this manager.
+   *
+   * The manager itself reports `retry-scheduled`, `gave-up` (when a limit or
+   * the budget refuses a retry) and `cancelled`. Code driving the attempts,
+   * such as retryAsync(), reports the rest through {@link emit}.
+   */
+  public readonly events$: Observable<RetryEvent> = this._events.asObservable();
 
   /**
    * Gets the current number of retry attempts made.
@@ -384,6 +996,35 @@ export class RetryManager {
     return this._attemptCount;
   }
 
+  /**
+   * Gets the number of retries `maxAttempts` still allows, or Infinity
+   * without an attempt limit.
+   */
+  public get remainingAttempts(): number {
+    return Math.max(0, this._limits.maxAttempts - this._attemptCount);
+  }
+
+  /**
+   * Gets the time in milliseconds since the manager was created or last reset.
+   */
+  public get elapsedMs(): number {
+    return Date.now() - this._startedAt;
+  }
+
+  /**
+   * Gets the total time in milliseconds spent waiting between attempts.
+   */
+  public get totalDelayMs(): number {
+    return this._totalDelayMs;
+  }
+
+  /**
+   * Gets the retry limits enforced by this retry manager.
+   */
+  public get limits(): Readonly<Required<RetryLimits>> {
+    return Object.freeze({ ...this._limits });
+  }
+
   /**
    * Gets the configuration options for this retry manager.
    */
@@ -394,32 +1035,89 @@ export class RetryManager {
   /**
    * Creates a new RetryManager with the specified configuration.
    *
-   * @param options - Configuration for retry behavior
+   * @param options - Configuration for retry behavior and limits
+   *
+   * @throws {BackoffConfigError} In strict mode, when the options are invalid
+   * @throws {RetryProfileError} When the `profile` cannot be resolved
    */
-  constructor(options: BackoffOptions = {}) {
+  constructor(managerOptions: RetryManagerOptions = {}) {
+    const options = applyRetryProfile(managerOptions);
+
     this._options = {
       baseDelayMs: options.baseDelayMs ?? 1000,
       maxDelayMs: options.maxDelayMs ?? 5000,
-      jitterFactor: options.jitterFactor ?? 0.2
+      jitterFactor: options.jitterFactor ?? 0.2,
+      jitterMode: options.jitterMode ?? "symmetric",
+      strategy: options.strategy ?? "exponential",
+      random: options.random ?? Math.random
     };
+    this._limits = {
+      maxAttempts: options.maxAttempts ?? Infinity,
+      maxElapsedMs: options.maxElapsedMs ?? Infinity,
+      maxTotalDelayMs: options.maxTotalDelayMs ?? Infinity
+    };
+
+    // Check the options with the defaults filled in, so that a maxDelayMs
+    // below the default baseDelayMs is caught too
+    if (options.strict) {
+      assertValidBackoffOptions({ ...options, ...this._options, ...this._limits });
+    }
+
+    this._signal = options.signal;
+    this._unref = options.unref ?? false;
+    this._retryBudget = options.retryBudget;
+    this._retryBudget?.recordRequest();
+    this._onEvent = options.onEvent;
+    this._classifier = options.classifier;
+    this._policies = options.policies ?? [];
+    this._retryAfter = options.retryAfter;
+    this._retryAfterMode = options.retryAfterMode ?? "floor";
+    this._logger = options.logger;
+  }
+
+  /**
+   * Publishes a retry lifecycle event to `events$`, `onEvent` and the logger.
+   *
+   * @param event - The event to publish; the timestamp is filled in from `Date.now()`
+   *
+   * @example
+   * ```typescript
+   * manager.emit({ type: "attempt-started", attempt: manager.attemptCount + 1 });
+   * ```
+   */
+  public emit(event: RetryEventInit): void {
+    const stamped = { ...event, timestamp: Date.now() } as RetryEvent;
+
+    this._onEvent?.(stamped);
+
+    if (this._logger) {
+      logRetryEvent(this._logger, stamped);
+    }
+
+    this._events.next(stamped);
   }
 
   /**
    * Determines if another retry attempt should be made.
    *
-   * This is a simple check that can be extended with more sophisticated
-   * logic (like maximum attempt limits) in subclasses.
+   * Returns false once any of the configured {@link RetryLimits} has been
+   * reached, or the manager's signal has been aborted. Subclasses can extend
+   * this with more sophisticated logic.
    *
    * @returns true if retrying is recommended
    */
   public canRetry(): boolean {
-    return true; // Override in subclasses for more sophisticated logic
+    return (
+      !this._signal?.aborted && getRetryLimitReason(this._limits, this.getProgress()) === undefined
+    );
   }
 
   /**
    * Determines if a specific error should trigger a retry.
    *
-   * Override this method to implement custom retry logic based on error types.
+   * By default the manager's `classifier` decides, and every error is
+   * retryable without one. Override this method to implement custom retry
+   * logic based on error types.
    *
    * @param error - The error that occurred
    * @returns true if the error is retryable
@@ -437,59 +1135,272 @@ export class RetryManager {
    * }
    * ```
    */
-  public shouldRetry(_error: unknown): boolean {
-    // Default implementation: retry all errors
+  public shouldRetry(error: unknown): boolean {
+    // Default implementation: defer to the classifier, retrying everything else
     // Override this method for more sophisticated error handling
-    return true;
+    return isRetryableError(error, this._classifier);
   }
 
   /**
    * Calculates the delay for the next retry and waits for that duration.
    *
    * This method increments the attempt counter and returns a Promise that
-   * resolves after the calculated backoff delay.
+   * resolves after the calculated backoff delay. A wait that is aborted does
+   * not count: the attempt and its delay are taken back, so they do not use
+   * up `maxAttempts` or `maxTotalDelayMs`.
    *
+   * @param options - A signal that cancels this wait (in addition to the
+   *                  manager's own signal), whether to unref the timer, and
+   *                  the error being retried, which selects a backoff policy
    * @returns A Promise that resolves after the backoff delay
    *
+   * @throws {AbortError} When either signal is already aborted or aborts during
+   *         the wait. The timer is cleared immediately.
+   * @throws {RetryExhaustedError} When a retry limit prevents another attempt,
+   *         including when the delay itself would overrun `maxElapsedMs` or
+   *         `maxTotalDelayMs`. The attempt counter is left unchanged.
+   * @throws {RetryBudgetExhaustedError} When the shared retry budget is used up
+   *
    * @example
    * ```typescript
    * try {
    *   await riskyOperation();
    * } catch (error) {
-   *   await retryManager.waitForNextRetry();
+   *   await retryManager.waitForNextRetry({ signal: request.signal, error });
    *   // Now ready for next attempt
    * }
    * ```
    */
-  public async waitForNextRetry(): Promise<BackoffResult> {
+  public async waitForNextRetry(options: WaitForNextRetryOptions = {}): Promise<BackoffResult> {
+    const { signal, dispose } = linkAbortSignals(this._signal, options.signal);
+
+    try {
+      return await this.sleepForNextRetry(
+        { signal, unref: options.unref ?? this._unref },
+        options.error
+      );
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Calculates and records the next retry without waiting for it.
+   *
+   * This is the bookkeeping half of {@link waitForNextRetry}: it enforces the
+   * retry limits and advances the attempt counter, but leaves the waiting to
+   * the caller. Use it when the delay has to be reported or scheduled before
+   * it starts; use {@link previewNextDelay} to look without recording anything.
+   *
+   * @param error - The error that triggered the retry, which selects the
+   *                backoff policy and is attached as the `cause` of a
+   *                RetryExhaustedError
+   * @returns The backoff result for the retry that was scheduled
+   *
+   * @throws {RetryExhaustedError} When a retry limit, or the `maxAttempts` of
+   *         the error's policy, prevents another attempt
+   * @throws {RetryBudgetExhaustedError} When the shared retry budget is used up
+   * @throws {AbortError} When the manager's signal has been aborted
+   */
+  public scheduleNextRetry(error?: unknown): BackoffResult {
+    // Check before calculating so an aborted wait doesn't count against the limits
+    if (this._signal?.aborted) {
+      this.emit({ type: "cancelled", attempt: this._attemptCount + 1 });
+      throw createAbortError(this._signal);
+    }
+
+    const policy = resolveBackoffPolicy(this._policies, error);
+    const classAttempts = this._policyTracker.attemptsFor(policy, this._attemptCount);
+    const backoffResult = this.calculateNextDelay(policy, error);
+
+    const progress = this.getProgress();
+    const reason =
+      classAttempts >= (policy?.maxAttempts ?? Infinity)
+        ? "maxAttempts"
+        : getRetryLimitReason(this._limits, progress, backoffResult.delayMs);
+
+    if (reason) {
+      const exhausted = new RetryExhaustedError(reason, progress, { cause: error });
+      this.emit({
+        type: "gave-up",
+        attempt: this._attemptCount + 1,
+        error: exhausted,
+        reason: "exhausted"
+      });
+      throw exhausted;
+    }
+
+    if (this._retryBudget && !this._retryBudget.tryAcquire()) {
+      const exhausted = new RetryBudgetExhaustedError({ cause: error });
+      this.emit({
+        type: "gave-up",
+        attempt: this._attemptCount + 1,
+        error: exhausted,
+        reason: "budget-exhausted"
+      });
+      throw exhausted;
+    }
+
     this._attemptCount++;
+    this._totalDelayMs += backoffResult.delayMs;
 
-    const backoffResult = calculateExponentialBackoff(this._attemptCount, this._options);
+    if (policy) {
+      this._policyTracker.record(policy, backoffResult.delayMs);
+    } else {
+      this._previousDelayMs = backoffResult.delayMs;
+    }
 
-    await new Promise<void>((resolve) => {
-      setTimeout(resolve, backoffResult.delayMs);
+    this.emit({
+      type: "retry-scheduled",
+      attempt: this._attemptCount,
+      error,
+      backoff: backoffResult
     });
 
     return backoffResult;
   }
 
+  /**
+   * Calculates the next delay, enforces the limits and sleeps.
+   */
+  private async sleepForNextRetry(options: SleepOptions, error: unknown): Promise<BackoffResult> {
+    if (options.signal?.aborted) {
+      this.emit({ type: "cancelled", attempt: this._attemptCount + 1 });
+      throw createAbortError(options.signal);
+    }
+
+    const policy = resolveBackoffPolicy(this._policies, error);
+    const previousDelayMs = policy
+      ? this._policyTracker.previousDelayFor(policy)
+      : this._previousDelayMs;
+    const backoffResult = this.scheduleNextRetry(error);
+
+    try {
+      await sleep(backoffResult.delayMs, options);
+    } catch (error: unknown) {
+      if (error instanceof AbortError) {
+        this.takeBackRetry(backoffResult, policy, previousDelayMs);
+        this.emit({ type: "cancelled", attempt: this._attemptCount + 1 });
+      }
+
+      throw error;
+    }
+
+    return backoffResult;
+  }
+
+  /**
+   * Undoes the bookkeeping of a retry whose wait was cancelled, refunding its
+   * retry budget token.
+   */
+  private takeBackRetry(
+    backoffResult: BackoffResult,
+    policy: ErrorBackoffPolicy | undefined,
+    previousDelayMs: number | undefined
+  ): void {
+    this._attemptCount = Math.max(0, this._attemptCount - 1);
+    this._totalDelayMs = Math.max(0, this._totalDelayMs - backoffResult.delayMs);
+    this._retryBudget?.refund();
+
+    if (policy) {
+      this._policyTracker.takeBack(policy, previousDelayMs);
+    } else {
+      this._previousDelayMs = previousDelayMs;
+    }
+  }
+
   /**
    * Calculates the delay for the next retry without waiting or incrementing counters.
    *
    * Useful for preview/logging purposes or when you want to handle the delay yourself.
    *
+   * @param error - The error the retry would follow, used to pick a backoff policy
    * @returns The calculated backoff result for the next attempt
    */
-  public previewNextDelay(): BackoffResult {
-    return calculateExponentialBackoff(this._attemptCount + 1, this._options);
+  public previewNextDelay(error?: unknown): BackoffResult {
+    return this.calculateNextDelay(resolveBackoffPolicy(this._policies, error), error);
+  }
+
+  /**
+   * Calculates the next delay for an error class, continuing its own attempt
+   * count and previous delay.
+   */
+  private calculateNextDelay(
+    policy: ErrorBackoffPolicy | undefined,
+    error: unknown
+  ): BackoffResult {
+    const attempt = this._policyTracker.attemptsFor(policy, this._attemptCount) + 1;
+
+    return policy
+      ? calculateExponentialBackoff(
+          attempt,
+          { ...this._options, ...getPolicyBackoffOptions(policy) },
+          this.getContext(error, policy)
+        )
+      : calculateExponentialBackoff(attempt, this._options, this.getContext(error));
   }
 
   /**
    * Resets the retry manager to its initial state.
    *
    * Call this when starting a new operation that should have fresh retry counts.
+   * The elapsed time and total delay used by the retry limits restart as well.
    */
   public reset(): void {
     this._attemptCount = 0;
+    this._previousDelayMs = undefined;
+    this._policyTracker.reset();
+    this._startedAt = Date.now();
+    this._totalDelayMs = 0;
+    this._retryBudget?.recordRequest();
+  }
+
+  /**
+   * Continues the retry sequence of an earlier manager, such as one whose
+   * progress was persisted before the process restarted.
+   *
+   * The next retry is calculated as the one after `attemptCount`, growing from
+   * `previousDelayMs`. The elapsed time and total delay used by the retry
+   * limits still start from when this manager was created or reset, and
+   * per-policy attempt counts are not restored.
+   *
+   * @param progress - The number of retries already made and the last delay
+   */
+  public resume(progress: { attemptCount: number; previousDelayMs?: number | undefined }): void {
+    this._attemptCount = Math.max(0, Math.floor(progress.attemptCount));
+    this._previousDelayMs = progress.previousDelayMs;
+  }
+
+  /**
+   * Captures the current progress for limit checks.
+   */
+  private getProgress(): RetryProgress {
+    return {
+      attempts: this._attemptCount,
+      elapsedMs: this.elapsedMs,
+      totalDelayMs: this._totalDelayMs
+    };
+  }
+
+  /**
+   * Builds the calculation context from the state of previous attempts and
+   * the delay the error asks for.
+   */
+  private getContext(error: unknown, policy?: ErrorBackoffPolicy): BackoffContext {
+    const previousDelayMs = policy
+      ? this._policyTracker.previousDelayFor(policy)
+      : this._previousDelayMs;
+    const retryAfterMs = error === undefined ? undefined : this._retryAfter?.(error);
+    const context: BackoffContext = { retryAfterMode: this._retryAfterMode };
+
+    if (previousDelayMs !== undefined) {
+      context.previousDelayMs = previousDelayMs;
+    }
+
+    if (retryAfterMs !== undefined) {
+      context.retryAfterMs = retryAfterMs;
+    }
+
+    return context;
   }
 }
@@ -1,2 +1,23 @@
 export * from "./exponential-backoff";
 export * from "./exponential-backoff-timer";
+export * from "./exponential-backoff-operator";
+export * from "./exponential-backoff-hints";
+export * from "./exponential-backoff-errors";
+export * from "./exponential-backoff-sleep";
+export * from "./exponential-backoff-retry-async";
+export * from "./exponential-backoff-circuit-breaker";
+export * from "./exponential-backoff-budget";
+export * from "./exponential-backoff-events";
+export * from "./exponential-backoff-instrumentation";
+export * from "./exponential-backoff-classifiers";
+export * from "./exponential-backoff-policies";
+export * from "./exponential-backoff-timeout";
+export * from "./exponential-backoff-poll";
+export * from "./exponential-backoff-reconnect";
+export * from "./exponential-backoff-simulation";
+export * from "./exponential-backoff-herd";
+export * from "./exponential-backoff-config";
+export * from "./exponential-backoff-profiles";
+export * from "./exponential-backoff-fetch";
+export * from "./exponential-backoff-keyed";
+export * from "./exponential-backoff-state";
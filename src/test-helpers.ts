@@ -0,0 +1,15 @@
+/**
+ * Helpers shared by the test files.
+ */
+
+import { TestScheduler } from "rxjs/testing";
+import { expect } from "vitest";
+
+/**
+ * Creates a TestScheduler that compares marble results with vitest's deep
+ * equality.
+ */
+export const createTestScheduler = (): TestScheduler =>
+  new TestScheduler((actual, expected) => {
+    expect(actual).toEqual(expected);
+  });